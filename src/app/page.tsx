@@ -35,38 +35,7 @@ import {
   ShinyText,
   AnimatedContent
 } from '@appletosolutions/reactbits';
-
-// Types
-interface PerpTransaction {
-  timestamp: string;
-  asset: string;
-  side: 'LONG' | 'SHORT';
-  quantity: number;
-  entry_price: number;
-  exit_price?: number;
-  pnl?: number;
-  fees: number;
-  funding: number;
-  exchange: string;
-  hash: string;
-  chain: string;
-  leverage: number;
-  liquidation?: boolean;
-}
-
-interface SpotTransaction {
-  timestamp: string;
-  asset: string;
-  side: string;
-  quantity: number;
-  price: number;
-  total: number;
-  fees: number;
-  hash: string;
-  chain: string;
-}
-
-type Transaction = SpotTransaction | PerpTransaction;
+import type { PerpTransaction, SpotTransaction, Transaction } from '@/lib/types';
 
 const SUPPORTED_CHAINS = [
   { id: 'solana', name: 'Solana', color: '#9945FF' },
@@ -83,11 +52,29 @@ const SUPPORTED_CHAINS = [
 
 const PERP_EXCHANGES = [
   { id: 'hyperliquid', name: 'Hyperliquid', color: '#4A47EE' },
-  { id: 'perpetual', name: 'Perpetual Protocol', color: '#9393DD' },
   { id: 'gmx', name: 'GMX', color: '#05F2AF' },
   { id: 'synthetix', name: 'Synthetix', color: '#1A1A2E' },
+  { id: 'dydx', name: 'dYdX', color: '#6966FF' },
 ];
 
+// Quotes every field so commas, quotes and newlines in names or hashes can't
+// shift columns, and defuses text a spreadsheet would run as a formula.
+// Numbers are left alone; a negative PnL isn't a formula.
+function csvField(value: string): string {
+  const isNumber = value.trim() !== '' && isFinite(Number(value));
+  const safe = !isNumber && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+function toCSV(headers: string[], rows: string[][]): string {
+  return [headers, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+}
+
+// TRANSFER_IN -> Transfer In
+function sideLabel(side: string): string {
+  return side.toLowerCase().split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
 // Subtle fade-in wrapper
 function FadeIn({ children, delay = 0, className = '' }: { children: React.ReactNode; delay?: number; className?: string }) {
   return (
@@ -163,6 +150,7 @@ export default function HomePage() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [warnings, setWarnings] = useState<string[]>([]);
   const [hasSearched, setHasSearched] = useState(false);
   
   const [dateFilter, setDateFilter] = useState('all');
@@ -183,14 +171,16 @@ export default function HomePage() {
 
     setLoading(true);
     setError('');
+    setWarnings([]);
     setHasSearched(true);
     setTransactions([]);
 
     try {
-      const response = await fetch(`/api/transactions?wallet=${encodeURIComponent(wallet)}&chain=${chain}&type=${transactionType}&mock=true`);
+      const response = await fetch(`/api/transactions?wallet=${encodeURIComponent(wallet)}&chain=${chain}&type=${transactionType}`);
       const data = await response.json();
       if (!response.ok) throw new Error(data.error || 'Failed to fetch');
       setTransactions(data.transactions || []);
+      setWarnings(data.warnings || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -237,7 +227,7 @@ export default function HomePage() {
       const totalFees = perps.reduce((sum, tx) => sum + tx.fees, 0);
       const totalFunding = perps.reduce((sum, tx) => sum + tx.funding, 0);
       const uniqueAssets = [...new Set(perps.map(tx => tx.asset))];
-      const openPositions = perps.filter(tx => tx.exit_price === undefined);
+      const openPositions = perps.filter(tx => tx.kind ? tx.kind === 'position' : tx.exit_price === undefined);
       
       return { totalPnl, totalFees, totalFunding, tradeCount: filteredTransactions.length, uniqueAssets: uniqueAssets.length, openPositions: openPositions.length };
     }
@@ -254,21 +244,34 @@ export default function HomePage() {
   const exportToCSV = useCallback(() => {
     if (filteredTransactions.length === 0) return;
 
+    // Sample rows must never end up in a tax file
+    if (filteredTransactions.some(tx => tx.provenance === 'mock')) {
+      setError('Export blocked: these transactions are sample data, not live history');
+      return;
+    }
+
     let csv: string;
     if (transactionType === 'perp') {
       const perps = filteredTransactions as PerpTransaction[];
-      const headers = ['timestamp', 'asset', 'side', 'quantity', 'entry_price', 'exit_price', 'pnl', 'fees', 'funding', 'exchange', 'leverage', 'liquidation', 'chain', 'hash'];
+      const headers = ['timestamp', 'asset', 'side', 'quantity', 'entry_price', 'exit_price', 'pnl', 'fees', 'funding', 'exchange', 'leverage', 'liquidation', 'chain', 'hash', 'kind', 'provenance'];
       const rows = perps.map(tx => [
         tx.timestamp, tx.asset, tx.side, tx.quantity.toString(), tx.entry_price.toString(),
         tx.exit_price?.toString() || '', tx.pnl?.toString() || '', tx.fees.toString(), tx.funding.toString(),
-        tx.exchange, tx.leverage.toString(), tx.liquidation ? 'YES' : 'NO', tx.chain, tx.hash
+        tx.exchange, tx.leverage.toString(), tx.liquidation ? 'YES' : 'NO', tx.chain, tx.hash, tx.kind || '', tx.provenance || ''
       ]);
-      csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
+      csv = toCSV(headers, rows);
     } else {
       const spots = filteredTransactions as SpotTransaction[];
-      const headers = ['timestamp', 'chain', 'asset', 'side', 'quantity', 'price', 'total', 'fees', 'hash'];
-      const rows = spots.map(tx => [tx.timestamp, tx.chain, tx.asset, tx.side, tx.quantity.toString(), tx.price.toString(), tx.total.toString(), tx.fees.toString(), tx.hash]);
-      csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
+      const headers = ['timestamp', 'chain', 'asset', 'side', 'quantity', 'price', 'total', 'fees', 'hash', 'received_asset', 'received_quantity', 'provenance', 'price_source'];
+      const rows = spots.map(tx => [
+        tx.timestamp, tx.chain, tx.asset, tx.side, tx.quantity.toString(),
+        // Left empty rather than 0 so the importer doesn't book a zero cost basis
+        tx.price_status === 'missing' ? '' : tx.price.toString(),
+        tx.price_status === 'missing' ? '' : tx.total.toString(),
+        tx.fees.toString(), tx.hash,
+        tx.received_asset || '', tx.received_quantity?.toString() || '', tx.provenance || '', tx.price_source || ''
+      ]);
+      csv = toCSV(headers, rows);
     }
 
     const blob = new Blob([csv], { type: 'text/csv' });
@@ -281,6 +284,8 @@ export default function HomePage() {
   }, [filteredTransactions, transactionType, wallet]);
 
   const uniqueAssets = [...new Set(transactions.map(tx => tx.asset))].sort();
+  // Chains add their own sides (FEE, STAKE, REWARD, TRANSFER_IN, ...)
+  const uniqueSides = [...new Set(transactions.map(tx => tx.side))].sort();
 
   return (
     <div className="min-h-screen bg-background">
@@ -412,6 +417,19 @@ export default function HomePage() {
                     {error}
                   </motion.p>
                 )}
+
+                {warnings.length > 0 && (
+                  <motion.div
+                    initial={{ opacity: 0, y: -8 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="mt-3 space-y-1 text-xs text-amber-400"
+                  >
+                    <p className="font-medium">Export may be incomplete:</p>
+                    {warnings.map((warning, i) => (
+                      <p key={i}>{warning}</p>
+                    ))}
+                  </motion.div>
+                )}
               </div>
             </Card>
           </FadeIn>
@@ -535,17 +553,9 @@ export default function HomePage() {
                       className="px-3 py-1.5 text-xs bg-secondary/50 border border-border rounded-lg outline-none cursor-pointer"
                     >
                       <option value="all">All Sides</option>
-                      {transactionType === 'perp' ? (
-                        <>
-                          <option value="LONG">Long</option>
-                          <option value="SHORT">Short</option>
-                        </>
-                      ) : (
-                        <>
-                          <option value="BUY">Buy</option>
-                          <option value="SELL">Sell</option>
-                        </>
-                      )}
+                      {uniqueSides.map(side => (
+                        <option key={side} value={side}>{sideLabel(side)}</option>
+                      ))}
                     </select>
 
                     {/* Search */}
@@ -612,7 +622,12 @@ export default function HomePage() {
                                     <TableCell className="text-sm text-muted-foreground/80 font-mono">
                                       {new Date(tx.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
                                     </TableCell>
-                                    <TableCell className="font-medium">{tx.asset}</TableCell>
+                                    <TableCell className="font-medium" title={!isPerp ? spotTx.asset_name : undefined}>
+                                      {tx.asset}
+                                      {!isPerp && spotTx.received_asset && (
+                                        <span className="text-muted-foreground/60"> → {spotTx.received_asset}</span>
+                                      )}
+                                    </TableCell>
                                     <TableCell>
                                       <Badge 
                                         variant="outline" 
@@ -630,10 +645,10 @@ export default function HomePage() {
                                       {tx.quantity.toFixed(4)}
                                     </TableCell>
                                     <TableCell className="text-right font-mono tabular-nums text-sm">
-                                      ${isPerp ? perpTx.entry_price.toFixed(2) : spotTx.price.toFixed(2)}
+                                      {isPerp ? `$${perpTx.entry_price.toFixed(2)}` : spotTx.price_status === 'missing' ? <span className="text-muted-foreground/40" title="No price source covered this asset">—</span> : spotTx.price_status === 'implied' ? <span title={`Implied from the ${spotTx.price_source?.replace('implied:', '')} leg of the trade`}>~${spotTx.price.toFixed(2)}</span> : `$${spotTx.price.toFixed(2)}`}
                                     </TableCell>
                                     <TableCell className="text-right font-mono tabular-nums text-sm">
-                                      ${isPerp ? (perpTx.pnl || 0).toFixed(2) : spotTx.total.toFixed(2)}
+                                      {isPerp ? `$${(perpTx.pnl || 0).toFixed(2)}` : spotTx.price_status === 'missing' ? <span className="text-muted-foreground/40">—</span> : `$${spotTx.total.toFixed(2)}`}
                                     </TableCell>
                                     {isPerp && (
                                       <TableCell className="text-right">
@@ -0,0 +1,244 @@
+// Bittensor-specific accounting on top of the Substrate adapter.
+//
+// Since dynamic TAO every subnet has its own alpha token: staking into subnet
+// N swaps TAO for SN<N> alpha through the subnet pool, unstaking swaps it
+// back. Emissions accrue to stake positions without emitting events, so they
+// are measured from the position value over time.
+
+import type { ApiPromise } from '@polkadot/api';
+import type { u16, Vec } from '@polkadot/types';
+import type { Codec } from '@polkadot/types/types';
+import type { AccountId } from '@polkadot/types/interfaces';
+import {
+  fetchSubstrateTransactions,
+  toUnits,
+  type SubstrateEventContext,
+  type SubstrateEventHandler,
+  type SubstrateExtension,
+  type SubstrateFetchOptions,
+} from './substrate';
+import type { SpotTransaction } from './types';
+
+// Alpha and TAO both use 9 decimals (rao)
+const ALPHA_DECIMALS = 9;
+// ~1 day of 12s blocks; emissions are reported as one row per position per day
+const EMISSION_INTERVAL_BLOCKS = 7_200;
+
+type BaseContext = Omit<SubstrateEventContext, 'timestamp' | 'hash'>;
+
+interface StakePosition {
+  hotkey: string;
+  netuid: number;
+}
+
+// The root network (netuid 0) is staked in TAO itself
+export function alphaAsset(netuid: number): string {
+  return netuid === 0 ? 'TAO' : `SN${netuid}`;
+}
+
+// Identifies the stake position a row belongs to
+function stakeVenue(hotkey: string, netuid: number): string {
+  return `Subnet ${netuid} (${hotkey.slice(0, 6)}…${hotkey.slice(-4)})`;
+}
+
+// Stake event handlers that also note every position they touch, so ones
+// opened and closed within the range still get their emissions measured
+function stakeHandlers(touched: Map<string, StakePosition>): Record<string, SubstrateEventHandler> {
+  const note = (hotkey: string, netuid: number) => touched.set(`${hotkey}:${netuid}`, { hotkey, netuid });
+
+  return {
+    // StakeAdded(coldkey, hotkey, tao, alpha, netuid, fee). Pre-dTAO runtimes
+    // emitted StakeAdded(hotkey, amount), which moved no value between assets.
+    'subtensorModule.StakeAdded': (data, ctx) => {
+      if (data.length < 5 || data[0].toHex() !== ctx.walletHex) return [];
+      const [, hotkey, tao, alpha, netuidCodec] = data;
+      const netuid = (netuidCodec as u16).toNumber();
+      note(hotkey.toString(), netuid);
+      return [stakeRow(ctx, 'TAO', tao, alphaAsset(netuid), alpha, hotkey.toString(), netuid)];
+    },
+
+    // StakeRemoved(coldkey, hotkey, tao, alpha, netuid, fee)
+    'subtensorModule.StakeRemoved': (data, ctx) => {
+      if (data.length < 5 || data[0].toHex() !== ctx.walletHex) return [];
+      const [, hotkey, tao, alpha, netuidCodec] = data;
+      const netuid = (netuidCodec as u16).toNumber();
+      note(hotkey.toString(), netuid);
+      return [stakeRow(ctx, alphaAsset(netuid), alpha, 'TAO', tao, hotkey.toString(), netuid)];
+    },
+  };
+}
+
+function stakeRow(
+  ctx: SubstrateEventContext,
+  soldAsset: string,
+  soldAmount: Codec,
+  boughtAsset: string,
+  boughtAmount: Codec,
+  hotkey: string,
+  netuid: number
+): SpotTransaction {
+  const quantity = toUnits(soldAmount, ALPHA_DECIMALS);
+  const receivedQuantity = toUnits(boughtAmount, ALPHA_DECIMALS);
+
+  return {
+    timestamp: ctx.timestamp,
+    asset: soldAsset,
+    // Root stake is TAO on both sides, so it's a deposit rather than a trade
+    side: netuid === 0 ? (soldAsset === 'TAO' ? 'STAKE' : 'UNSTAKE') : 'SWAP',
+    quantity,
+    price: 0,
+    total: 0,
+    fees: 0,
+    hash: ctx.hash,
+    chain: ctx.chain,
+    received_asset: boughtAsset,
+    received_quantity: receivedQuantity,
+    implied_price: quantity > 0 ? receivedQuantity / quantity : undefined,
+    venue: stakeVenue(hotkey, netuid),
+  };
+}
+
+// Emission income per stake position per interval: growth in position value
+// not explained by stake/unstake events in that interval
+async function collectEmissions(
+  base: BaseContext,
+  fromBlock: number,
+  toBlock: number,
+  rows: SpotTransaction[],
+  touched: Map<string, StakePosition>
+): Promise<SpotTransaction[]> {
+  const { api } = base;
+  const coldkey = base.walletHex;
+  const positions = await findPositions(api, coldkey, [fromBlock, toBlock], touched);
+  if (positions.length === 0) return [];
+
+  const boundaries: number[] = [];
+  for (let block = fromBlock; block < toBlock; block += EMISSION_INTERVAL_BLOCKS) {
+    boundaries.push(block);
+  }
+  boundaries.push(toBlock);
+
+  const samples: { time: number; values: number[] }[] = [];
+  for (const block of boundaries) {
+    samples.push(await sampleBlock(api, block, coldkey, positions));
+  }
+  const income: SpotTransaction[] = [];
+
+  for (let i = 1; i < samples.length; i++) {
+    const previous = samples[i - 1];
+    const current = samples[i];
+
+    positions.forEach((position, p) => {
+      const asset = alphaAsset(position.netuid);
+      const venue = stakeVenue(position.hotkey, position.netuid);
+      const flows = rows
+        .filter(row => {
+          const time = new Date(row.timestamp).getTime();
+          return time > previous.time && time <= current.time && row.venue === venue;
+        })
+        .reduce((sum, row) => {
+          if (row.received_asset === asset && row.asset !== asset) return sum + (row.received_quantity || 0);
+          if (row.asset === asset && row.received_asset !== asset) return sum - row.quantity;
+          // Root stake/unstake: TAO on both sides
+          return sum + (row.side === 'STAKE' ? row.quantity : row.side === 'UNSTAKE' ? -row.quantity : 0);
+        }, 0);
+
+      const earned = current.values[p] - previous.values[p] - flows;
+      // Dust from share rounding isn't income
+      if (earned <= 1e-9) return;
+
+      income.push({
+        timestamp: new Date(current.time).toISOString(),
+        asset,
+        side: 'INCOME',
+        quantity: earned,
+        price: 0,
+        total: 0,
+        fees: 0,
+        hash: `emission-${position.netuid}-${position.hotkey.slice(0, 10)}-${boundaries[i]}`,
+        chain: base.chain,
+        venue,
+      });
+    });
+  }
+
+  return income;
+}
+
+// Every (hotkey, netuid) the coldkey held stake in at any of `blocks`, plus
+// those the stake events in between touched
+async function findPositions(
+  api: ApiPromise,
+  coldkey: string,
+  blocks: number[],
+  touched: Map<string, StakePosition>
+): Promise<StakePosition[]> {
+  const found = new Map<string, StakePosition>(touched);
+
+  for (const block of blocks) {
+    const at = await api.at(await api.rpc.chain.getBlockHash(block));
+    const hotkeys = await at.query.subtensorModule.stakingHotkeys<Vec<AccountId>>(coldkey);
+
+    for (const hotkey of hotkeys) {
+      // Alpha is keyed (hotkey, coldkey, netuid)
+      const entries = await at.query.subtensorModule.alpha.entries<Codec, [AccountId, AccountId, u16]>(hotkey, coldkey);
+      for (const [key] of entries) {
+        const netuid = key.args[2].toNumber();
+        const position = { hotkey: hotkey.toString(), netuid };
+        found.set(`${position.hotkey}:${netuid}`, position);
+      }
+    }
+  }
+
+  return Array.from(found.values());
+}
+
+// Alpha value of each position at `block`: shares * hotkey alpha / hotkey shares
+async function sampleBlock(
+  api: ApiPromise,
+  block: number,
+  coldkey: string,
+  positions: StakePosition[]
+): Promise<{ time: number; values: number[] }> {
+  const at = await api.at(await api.rpc.chain.getBlockHash(block));
+  const now = await at.query.timestamp.now();
+
+  const values = await Promise.all(positions.map(async ({ hotkey, netuid }) => {
+    const [shares, totalShares, totalAlpha] = await Promise.all([
+      at.query.subtensorModule.alpha(hotkey, coldkey, netuid),
+      at.query.subtensorModule.totalHotkeyShares(hotkey, netuid),
+      at.query.subtensorModule.totalHotkeyAlpha(hotkey, netuid),
+    ]);
+
+    const total = fixedToNumber(totalShares);
+    if (total === 0) return 0;
+    return (fixedToNumber(shares) / total) * toUnits(totalAlpha, ALPHA_DECIMALS);
+  }));
+
+  return { time: Number(now.toString()), values };
+}
+
+// Shares are U64F64 fixed-point values; only their ratio matters, so the
+// 2^64 scale can stay in
+function fixedToNumber(value: any): number {
+  const bits = value?.bits ?? value;
+  return Number(BigInt(bits.toString()));
+}
+
+// One per fetch: the handlers and the emission pass share the positions seen
+export function createBittensorExtension(): SubstrateExtension {
+  const touched = new Map<string, StakePosition>();
+
+  return {
+    handlers: stakeHandlers(touched),
+    collect: (base, fromBlock, toBlock, rows) => collectEmissions(base, fromBlock, toBlock, rows, touched),
+  };
+}
+
+export function fetchBittensorTransactions(
+  wallet: string,
+  rpcUrl: string,
+  options: SubstrateFetchOptions = {}
+): Promise<SpotTransaction[]> {
+  return fetchSubstrateTransactions(wallet, 'bittensor', rpcUrl, options, createBittensorExtension());
+}
@@ -0,0 +1,55 @@
+// Small JSON-file cache for data that never changes once fetched
+// (token metadata, historical prices). Writes are best effort: on a read-only
+// filesystem the cache simply behaves as in-memory for the request.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const CACHE_DIR = process.env.CACHE_DIR || path.join(process.cwd(), '.cache');
+
+export interface DiskCache<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  // Persists pending writes; call once after a batch of set()s
+  flush(): Promise<void>;
+}
+
+export function createDiskCache<T>(name: string): DiskCache<T> {
+  const file = path.join(CACHE_DIR, `${name}.json`);
+  let loading: Promise<Map<string, T>> | null = null;
+  let dirty = false;
+
+  const load = () => {
+    if (!loading) {
+      loading = fs
+        .readFile(file, 'utf8')
+        .then(text => new Map<string, T>(Object.entries(JSON.parse(text))))
+        .catch(() => new Map<string, T>());
+    }
+    return loading;
+  };
+
+  return {
+    async get(key) {
+      return (await load()).get(key);
+    },
+
+    async set(key, value) {
+      (await load()).set(key, value);
+      dirty = true;
+    },
+
+    async flush() {
+      if (!dirty) return;
+      const entries = await load();
+      dirty = false;
+
+      try {
+        await fs.mkdir(CACHE_DIR, { recursive: true });
+        await fs.writeFile(file, JSON.stringify(Object.fromEntries(entries)));
+      } catch (err) {
+        console.warn(`Failed to write cache ${file}:`, err);
+      }
+    },
+  };
+}
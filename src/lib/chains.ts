@@ -0,0 +1,56 @@
+// Per-chain configuration shared by the API route and the chain fetchers
+
+// Free public RPC endpoints
+export const RPC_ENDPOINTS: Record<string, string> = {
+  solana: 'https://api.mainnet-beta.solana.com',
+  ethereum: 'https://eth.public-rpc.com',
+  base: 'https://base.public.blastapi.io',
+  arbitrum: 'https://arb1.arbitrum.io/rpc',
+  polygon: 'https://polygon-rpc.com',
+  optimism: 'https://mainnet.optimism.io',
+  ronin: 'https://api.roninchain.com/rpc',
+  // Perps only (GMX)
+  avalanche: 'https://api.avax.network/ext/bc/C/rpc',
+  bittensor: 'wss://entrypoint-finney.opentensor.ai:443',
+  polkadot: 'wss://rpc.polkadot.io',
+  // Cosmos chains are read over the LCD (REST) API
+  osmosis: 'https://lcd.osmosis.zone',
+};
+
+// An RPC configured via e.g. ETHEREUM_RPC_URL wins over the public default;
+// needed for archive state and the trace APIs
+export function getRpcUrl(chain: string): string | undefined {
+  return process.env[`${chain.toUpperCase()}_RPC_URL`] || RPC_ENDPOINTS[chain];
+}
+
+export const CHAIN_NATIVE_ASSET: Record<string, string> = {
+  solana: 'SOL',
+  ethereum: 'ETH',
+  base: 'ETH',
+  arbitrum: 'ETH',
+  polygon: 'MATIC',
+  optimism: 'ETH',
+  ronin: 'RON',
+  avalanche: 'AVAX',
+  bittensor: 'TAO',
+  polkadot: 'DOT',
+  osmosis: 'OSMO',
+};
+
+// OP-stack rollups charge an L1 data fee on top of L2 gas, reported as
+// `l1Fee` on the receipt
+export const OP_STACK_CHAINS = new Set(['base', 'optimism']);
+
+// Token contracts whose Transfer logs mirror native value movements. Before
+// Bedrock, Optimism's ETH lived in the OVM_ETH predeploy, which emitted a
+// Transfer for every native send, internal ones included; those logs are
+// read as native rows in place of the transaction value.
+export const NATIVE_MIRROR_TOKENS: Record<string, string[]> = {
+  optimism: ['0xdeaddeaddeaddeaddeaddeaddeaddeaddead0000'],
+};
+
+// Claim contracts whose payouts are airdrops (income) rather than purchases:
+// the OP token's first airdrop MerkleDistributor
+export const AIRDROP_DISTRIBUTORS: Record<string, string[]> = {
+  optimism: ['0xfedfaf1a10335448b7fa0268f56d2b44dbd357de'],
+};
@@ -0,0 +1,127 @@
+// Resolves Cosmos SDK denoms (uosmo, ibc/<hash>, gamm/pool/<id>,
+// factory/<creator>/<sub>) to display symbols and exponents
+
+import { createDiskCache, type DiskCache } from './cache';
+import type { TokenMetadata } from './types';
+import { warn } from './warnings';
+
+// Base denoms we see most often, keyed by the denom on their home chain
+const KNOWN_BASE_DENOMS: Record<string, TokenMetadata> = {
+  uosmo: { symbol: 'OSMO', name: 'Osmosis', decimals: 6 },
+  uion: { symbol: 'ION', name: 'Ion', decimals: 6 },
+  uatom: { symbol: 'ATOM', name: 'Cosmos Hub', decimals: 6 },
+  uusdc: { symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+  utia: { symbol: 'TIA', name: 'Celestia', decimals: 6 },
+  ustars: { symbol: 'STARS', name: 'Stargaze', decimals: 6 },
+  ujuno: { symbol: 'JUNO', name: 'Juno', decimals: 6 },
+  uakt: { symbol: 'AKT', name: 'Akash', decimals: 6 },
+  ustrd: { symbol: 'STRD', name: 'Stride', decimals: 6 },
+  untrn: { symbol: 'NTRN', name: 'Neutron', decimals: 6 },
+  inj: { symbol: 'INJ', name: 'Injective', decimals: 18 },
+  aevmos: { symbol: 'EVMOS', name: 'Evmos', decimals: 18 },
+  adydx: { symbol: 'DYDX', name: 'dYdX', decimals: 18 },
+  stuatom: { symbol: 'stATOM', name: 'Stride Staked ATOM', decimals: 6 },
+  stuosmo: { symbol: 'stOSMO', name: 'Stride Staked OSMO', decimals: 6 },
+};
+
+const caches = new Map<string, DiskCache<TokenMetadata>>();
+
+function cacheFor(chain: string): DiskCache<TokenMetadata> {
+  let cache = caches.get(chain);
+  if (!cache) {
+    cache = createDiskCache<TokenMetadata>(`cosmos-denoms-${chain}`);
+    caches.set(chain, cache);
+  }
+  return cache;
+}
+
+export async function resolveDenoms(
+  chain: string,
+  lcdUrl: string,
+  denoms: string[]
+): Promise<Map<string, TokenMetadata>> {
+  const cache = cacheFor(chain);
+  const resolved = new Map<string, TokenMetadata>();
+
+  for (const denom of new Set(denoms)) {
+    const known = KNOWN_BASE_DENOMS[denom] || (await cache.get(denom));
+    if (known) {
+      resolved.set(denom, known);
+      continue;
+    }
+
+    try {
+      const metadata = await lookupDenom(lcdUrl, denom);
+      resolved.set(denom, metadata);
+      await cache.set(denom, metadata);
+    } catch (err) {
+      warn(`Failed to resolve denom ${denom}:`, err);
+      resolved.set(denom, guessFromBaseDenom(denom));
+    }
+  }
+
+  await cache.flush();
+  return resolved;
+}
+
+async function lookupDenom(lcdUrl: string, denom: string): Promise<TokenMetadata> {
+  // Chains register display metadata for many denoms, IBC ones included
+  const bank = await getJson(lcdUrl, `/cosmos/bank/v1beta1/denoms_metadata/${encodeURIComponent(denom)}`);
+  const metadata = bank?.metadata;
+  if (metadata?.display) {
+    const display = (metadata.denom_units || []).find((unit: any) => unit.denom === metadata.display);
+    return {
+      symbol: metadata.symbol || metadata.display.toUpperCase(),
+      name: metadata.name || metadata.display,
+      decimals: display?.exponent ?? 0,
+    };
+  }
+
+  if (denom.startsWith('ibc/')) {
+    const baseDenom = await ibcBaseDenom(lcdUrl, denom.slice(4));
+    return KNOWN_BASE_DENOMS[baseDenom] || guessFromBaseDenom(baseDenom);
+  }
+
+  return guessFromBaseDenom(denom);
+}
+
+// ibc-go v8 serves /denoms/{hash}; older versions /denom_traces/{hash}
+async function ibcBaseDenom(lcdUrl: string, hash: string): Promise<string> {
+  const v8 = await getJson(lcdUrl, `/ibc/apps/transfer/v1/denoms/${hash}`);
+  if (v8?.denom?.base) return v8.denom.base;
+
+  const legacy = await getJson(lcdUrl, `/ibc/apps/transfer/v1/denom_traces/${hash}`);
+  if (legacy?.denom_trace?.base_denom) return legacy.denom_trace.base_denom;
+
+  throw new Error(`Unknown IBC denom ibc/${hash}`);
+}
+
+// Conventions: u-prefixed denoms are 6-decimal micro units, a-prefixed are
+// 18-decimal atto units; pool shares and tokenfactory denoms are named after
+// their last path segment
+function guessFromBaseDenom(denom: string): TokenMetadata {
+  const pool = denom.match(/^gamm\/pool\/(\d+)$/);
+  if (pool) return { symbol: `GAMM-${pool[1]}`, name: `Osmosis pool ${pool[1]} shares`, decimals: 18 };
+
+  if (denom.startsWith('factory/')) {
+    const sub = denom.split('/').pop() || denom;
+    return { symbol: sub.replace(/^u/, '').toUpperCase(), name: denom, decimals: 6 };
+  }
+
+  if (denom.startsWith('ibc/')) {
+    return { symbol: `IBC/${denom.slice(4, 10)}`, name: denom, decimals: 6 };
+  }
+
+  if (/^u[a-z]/.test(denom)) return { symbol: denom.slice(1).toUpperCase(), name: denom, decimals: 6 };
+  if (/^a[a-z]/.test(denom)) return { symbol: denom.slice(1).toUpperCase(), name: denom, decimals: 18 };
+  return { symbol: denom.toUpperCase(), name: denom, decimals: 0 };
+}
+
+async function getJson(lcdUrl: string, path: string): Promise<any> {
+  const response = await fetch(`${lcdUrl}${path}`);
+  if (response.status === 404 || response.status === 501) return null;
+  if (!response.ok) {
+    throw new Error(`LCD ${path} failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchCosmosTransactions } from './cosmos';
+import { stubFetch } from './test-fetch';
+
+const WALLET = 'osmo1qyqszqgpqyqszqgpqyqszqgpqyqszqgpjnp7du';
+const VALIDATOR = 'osmovaloper1clpqr4nrk4khgkxj78fcwwh6dl3uw4ep88n0y4';
+const DISTRIBUTION = 'osmo1jv65s3grqf6v6jl3dp4t6c9t9rk99cd80yhvld';
+const FEE_COLLECTOR = 'osmo17xpfvakm2amg962yls6f84z3kell8c5lczssa0';
+
+const attrs = (pairs: [string, string][]) => pairs.map(([key, value]) => ({ key, value, index: true }));
+
+// MsgWithdrawDelegatorReward as returned by /cosmos/tx/v1beta1/txs on SDK
+// 0.47: withdraw_rewards lists the amount before the delegator
+const rewardTx = {
+  height: '25000000',
+  txhash: 'A1B2C3D4E5F60718293A4B5C6D7E8F90A1B2C3D4E5F60718293A4B5C6D7E8F90',
+  code: 0,
+  timestamp: '2025-03-01T12:00:00Z',
+  tx: {
+    body: {
+      messages: [{
+        '@type': '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+        delegator_address: WALLET,
+        validator_address: VALIDATOR,
+      }],
+    },
+    auth_info: { fee: { amount: [{ denom: 'uosmo', amount: '5000' }], gas_limit: '200000', payer: '', granter: '' } },
+  },
+  logs: [],
+  events: [
+    { type: 'coin_spent', attributes: attrs([['spender', WALLET], ['amount', '5000uosmo']]) },
+    { type: 'coin_received', attributes: attrs([['receiver', FEE_COLLECTOR], ['amount', '5000uosmo']]) },
+    { type: 'transfer', attributes: attrs([['recipient', FEE_COLLECTOR], ['sender', WALLET], ['amount', '5000uosmo']]) },
+    { type: 'tx', attributes: attrs([['fee', '5000uosmo'], ['fee_payer', WALLET]]) },
+    { type: 'message', attributes: attrs([['action', '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward'], ['sender', WALLET], ['module', 'distribution']]) },
+    { type: 'coin_spent', attributes: attrs([['spender', DISTRIBUTION], ['amount', '1234567uosmo'], ['msg_index', '0']]) },
+    { type: 'coin_received', attributes: attrs([['receiver', WALLET], ['amount', '1234567uosmo'], ['msg_index', '0']]) },
+    { type: 'transfer', attributes: attrs([['recipient', WALLET], ['sender', DISTRIBUTION], ['amount', '1234567uosmo'], ['msg_index', '0']]) },
+    {
+      type: 'withdraw_rewards',
+      attributes: attrs([['amount', '1234567uosmo'], ['validator', VALIDATOR], ['delegator', WALLET], ['msg_index', '0']]),
+    },
+  ],
+};
+
+function stubLcd(txs: any[]) {
+  stubFetch(url => {
+    // Sender search finds the withdrawal; the recipient search finds nothing new
+    const sent = decodeURIComponent(url).includes('message.sender');
+    return { tx_responses: sent ? txs : [], total: String(sent ? txs.length : 0) };
+  });
+}
+
+describe('fetchCosmosTransactions', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports withdrawn staking rewards as REWARD rows', async () => {
+    stubLcd([rewardTx]);
+
+    const rows = await fetchCosmosTransactions(WALLET, 'osmosis', 'https://lcd.example', {});
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      side: 'REWARD',
+      asset: 'OSMO',
+      quantity: 1.234567,
+      fees: 0.005,
+      hash: rewardTx.txhash,
+    });
+  });
+});
@@ -0,0 +1,301 @@
+// Cosmos SDK spot history (Osmosis) from the LCD tx search endpoint.
+//
+// Rows are built from the coin_spent / coin_received events the bank module
+// emits for every balance change, so module-driven movements (pool swaps, IBC
+// receives, reward withdrawals) are caught without decoding each message
+// type's arguments. Message types only decide how a change is labelled.
+
+import { resolveDenoms } from './cosmos-denoms';
+import type { DateRange, SpotTransaction, TokenMetadata } from './types';
+import { warn } from './warnings';
+
+const PAGE_SIZE = 100;
+
+interface CosmosChainConfig {
+  bech32Prefix: string;
+  // Venue label for the chain's native DEX
+  dexVenue: string;
+}
+
+const COSMOS_CHAINS: Record<string, CosmosChainConfig> = {
+  osmosis: { bech32Prefix: 'osmo', dexVenue: 'Osmosis' },
+};
+
+// Osmosis routes swaps through the poolmanager; gamm messages predate it
+const SWAP_MESSAGE = /^\/osmosis\.(poolmanager|gamm|concentratedliquidity)\.v\w+\.Msg(Swap|SplitRoute)/;
+
+const TRANSFER_MESSAGES = new Set([
+  '/cosmos.bank.v1beta1.MsgSend',
+  '/cosmos.bank.v1beta1.MsgMultiSend',
+  '/ibc.applications.transfer.v1.MsgTransfer',
+  '/ibc.core.channel.v1.MsgRecvPacket',
+  '/ibc.core.channel.v1.MsgAcknowledgement',
+  '/ibc.core.channel.v1.MsgTimeout',
+]);
+
+const DELEGATE_MESSAGE = '/cosmos.staking.v1beta1.MsgDelegate';
+
+interface DecodedTx {
+  hash: string;
+  timestamp: string;
+  kind: 'swap' | 'transfer' | 'stake' | 'other';
+  // Net balance change per denom, excluding fee and rewards
+  changes: Map<string, bigint>;
+  rewards: Map<string, bigint>;
+  fee?: { denom: string; amount: bigint };
+}
+
+export async function fetchCosmosTransactions(
+  wallet: string,
+  chain: string,
+  lcdUrl: string,
+  options: DateRange = {}
+): Promise<SpotTransaction[]> {
+  const config = COSMOS_CHAINS[chain];
+  if (!config) {
+    throw new Error(`Unsupported Cosmos chain: ${chain}`);
+  }
+  if (!wallet.startsWith(`${config.bech32Prefix}1`)) {
+    throw new Error(`Invalid ${chain} address: ${wallet}`);
+  }
+
+  // Sent covers swaps, delegations and withdrawals; received covers incoming
+  // sends and IBC packets relayed by someone else
+  const responses = new Map<string, any>();
+  for (const query of [`message.sender='${wallet}'`, `transfer.recipient='${wallet}'`]) {
+    for (const tx of await searchTxs(lcdUrl, query, options)) {
+      responses.set(tx.txhash, tx);
+    }
+  }
+
+  const decoded: DecodedTx[] = [];
+  for (const tx of responses.values()) {
+    const time = new Date(tx.timestamp).getTime() / 1000;
+    if (options.from !== undefined && time < options.from) continue;
+    if (options.to !== undefined && time > options.to) continue;
+
+    try {
+      decoded.push(decodeTx(tx, wallet));
+    } catch (err) {
+      warn(`Failed to decode transaction ${tx.txhash}:`, err);
+    }
+  }
+
+  const denoms = decoded.flatMap(tx => [
+    ...tx.changes.keys(),
+    ...tx.rewards.keys(),
+    ...(tx.fee ? [tx.fee.denom] : []),
+  ]);
+  const metadata = await resolveDenoms(chain, lcdUrl, denoms);
+
+  const transactions = decoded.flatMap(tx => buildRows(tx, chain, config, metadata));
+
+  return transactions.sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
+// Newest first, stopping once a page reaches past `from`
+async function searchTxs(lcdUrl: string, query: string, options: DateRange): Promise<any[]> {
+  const results: any[] = [];
+  // SDK 0.50 takes `query`; earlier versions only understand `events`
+  let param = 'query';
+
+  for (let page = 1; ; page++) {
+    const url = `${lcdUrl}/cosmos/tx/v1beta1/txs?${param}=${encodeURIComponent(query)}`
+      + `&order_by=ORDER_BY_DESC&page=${page}&limit=${PAGE_SIZE}`;
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      if (page === 1 && param === 'query' && response.status === 400) {
+        param = 'events';
+        page--;
+        continue;
+      }
+      throw new Error(`Tx search failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const txs: any[] = data.tx_responses || [];
+    results.push(...txs);
+
+    if (txs.length < PAGE_SIZE) break;
+    if (Number(data.total) > 0 && page * PAGE_SIZE >= Number(data.total)) break;
+
+    const oldest = new Date(txs[txs.length - 1].timestamp).getTime() / 1000;
+    if (options.from !== undefined && oldest < options.from) break;
+  }
+
+  return results;
+}
+
+function decodeTx(tx: any, wallet: string): DecodedTx {
+  // SDK 0.50 dropped per-message logs; older responses only carry events there
+  const events: any[] = tx.events?.length
+    ? tx.events
+    : (tx.logs || []).flatMap((log: any) => log.events || []);
+
+  const changes = new Map<string, bigint>();
+  const rewards = new Map<string, bigint>();
+
+  // A failed transaction moved nothing but still paid its fee
+  if (tx.code === 0) {
+    for (const event of events) {
+      if (event.type === 'coin_spent') applyCoins(event, 'spender', wallet, changes, -1);
+      if (event.type === 'coin_received') applyCoins(event, 'receiver', wallet, changes, 1);
+      if (event.type === 'withdraw_rewards') applyCoins(event, 'delegator', wallet, rewards, 1);
+    }
+  }
+
+  // Withdrawn rewards arrive as coin_received from the distribution module;
+  // report them once, as rewards
+  for (const [denom, amount] of rewards) {
+    changes.set(denom, (changes.get(denom) || BigInt(0)) - amount);
+  }
+
+  let fee: DecodedTx['fee'];
+  const feeCoin = tx.tx?.auth_info?.fee?.amount?.[0];
+  if (feeCoin && feePayer(tx, events) === wallet) {
+    fee = { denom: feeCoin.denom, amount: BigInt(feeCoin.amount) };
+    // The fee was deducted through coin_spent as well
+    if (tx.code === 0) {
+      changes.set(fee.denom, (changes.get(fee.denom) || BigInt(0)) + fee.amount);
+    }
+  }
+
+  const types: string[] = (tx.tx?.body?.messages || []).map((message: any) => message['@type']);
+  let kind: DecodedTx['kind'] = 'other';
+  if (types.some(type => SWAP_MESSAGE.test(type))) kind = 'swap';
+  else if (types.includes(DELEGATE_MESSAGE)) kind = 'stake';
+  else if (types.some(type => TRANSFER_MESSAGES.has(type))) kind = 'transfer';
+
+  return {
+    hash: tx.txhash,
+    timestamp: new Date(tx.timestamp).toISOString(),
+    kind,
+    changes,
+    rewards,
+    fee,
+  };
+}
+
+// Events carry an address attribute and an amount, in either order:
+// coin_spent / coin_received list the address first, withdraw_rewards emits
+// `amount, validator, delegator`. Older SDKs pack several pairs into one
+// event, so attributes are paired up in order once the whole list is read.
+function applyCoins(
+  event: any,
+  addressKey: string,
+  wallet: string,
+  totals: Map<string, bigint>,
+  sign: 1 | -1
+) {
+  const attributes: { key: string; value: string }[] = (event.attributes || [])
+    .filter((attr: any) => attr.key === addressKey || attr.key === 'amount');
+  const addresses = attributes.filter(attr => attr.key === addressKey).map(attr => attr.value);
+  const amounts = attributes.filter(attr => attr.key === 'amount').map(attr => attr.value);
+
+  // One address owns every amount; otherwise the i-th address goes with the
+  // i-th amount
+  const pairs: [string, string][] = addresses.length === 1
+    ? amounts.map(amount => [addresses[0], amount])
+    : amounts.map((amount, i) => [addresses[i], amount]);
+
+  for (const [address, value] of pairs) {
+    if (address !== wallet || !value) continue;
+    for (const [denom, amount] of parseCoins(value)) {
+      totals.set(denom, (totals.get(denom) || BigInt(0)) + BigInt(sign) * amount);
+    }
+  }
+}
+
+// "100uosmo,5ibc/27394..." -> [['uosmo', 100n], ['ibc/27394...', 5n]]
+function parseCoins(value: string): [string, bigint][] {
+  return value.split(',').flatMap(coin => {
+    const match = coin.trim().match(/^(\d+)(.+)$/);
+    return match ? [[match[2], BigInt(match[1])] as [string, bigint]] : [];
+  });
+}
+
+function feePayer(tx: any, events: any[]): string | undefined {
+  const explicit = tx.tx?.auth_info?.fee?.payer;
+  if (explicit) return explicit;
+
+  for (const event of events) {
+    if (event.type !== 'tx') continue;
+    const attribute = (event.attributes || []).find((attr: any) => attr.key === 'fee_payer');
+    if (attribute) return attribute.value;
+  }
+
+  // Before fee_payer was emitted the first message's signer pays
+  const message = tx.tx?.body?.messages?.[0] || {};
+  return message.sender || message.from_address || message.delegator_address || message.signer;
+}
+
+function buildRows(
+  tx: DecodedTx,
+  chain: string,
+  config: CosmosChainConfig,
+  metadata: Map<string, TokenMetadata>
+): SpotTransaction[] {
+  const toQuantity = (denom: string, amount: bigint) =>
+    Number(amount) / 10 ** (metadata.get(denom)?.decimals ?? 0);
+
+  const row = (denom: string, side: string, amount: bigint): SpotTransaction => ({
+    timestamp: tx.timestamp,
+    asset: metadata.get(denom)?.symbol || denom,
+    asset_name: metadata.get(denom)?.name,
+    side,
+    quantity: toQuantity(denom, amount),
+    price: 0,
+    total: 0,
+    fees: 0,
+    hash: tx.hash,
+    chain,
+    token_address: denom,
+  });
+
+  const legs = Array.from(tx.changes.entries()).filter(([, amount]) => amount !== BigInt(0));
+  const sold = legs.filter(([, amount]) => amount < BigInt(0));
+  const bought = legs.filter(([, amount]) => amount > BigInt(0));
+  const rows: SpotTransaction[] = [];
+
+  if (tx.kind === 'swap' && sold.length === 1 && bought.length === 1) {
+    const [soldDenom, soldAmount] = sold[0];
+    const [boughtDenom, boughtAmount] = bought[0];
+    const quantity = toQuantity(soldDenom, -soldAmount);
+    const receivedQuantity = toQuantity(boughtDenom, boughtAmount);
+
+    rows.push({
+      ...row(soldDenom, 'SWAP', -soldAmount),
+      received_asset: metadata.get(boughtDenom)?.symbol || boughtDenom,
+      received_quantity: receivedQuantity,
+      received_token_address: boughtDenom,
+      implied_price: quantity > 0 ? receivedQuantity / quantity : undefined,
+      venue: config.dexVenue,
+    });
+  } else {
+    for (const [denom, amount] of legs) {
+      const outgoing = amount < BigInt(0);
+      let side = outgoing ? 'SELL' : 'BUY';
+      if (tx.kind === 'transfer') side = outgoing ? 'TRANSFER_OUT' : 'TRANSFER_IN';
+      if (tx.kind === 'stake' && outgoing) side = 'STAKE';
+      rows.push(row(denom, side, outgoing ? -amount : amount));
+    }
+  }
+
+  for (const [denom, amount] of tx.rewards) {
+    if (amount > BigInt(0)) rows.push(row(denom, 'REWARD', amount));
+  }
+
+  if (tx.fee && tx.fee.amount > BigInt(0)) {
+    const fees = toQuantity(tx.fee.denom, tx.fee.amount);
+    if (rows.length > 0) {
+      rows[0].fees = fees;
+    } else {
+      rows.push({ ...row(tx.fee.denom, 'FEE', BigInt(0)), fees });
+    }
+  }
+
+  return rows;
+}
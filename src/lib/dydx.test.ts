@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchDydxTransactions, type DydxIndexer } from './dydx';
+import { collectWarnings } from './warnings';
+
+const ADDRESS = 'dydx1x4c9q8p0g5x2nvqkq5sfkq6v2hrgmsdl5u3y0l';
+
+// Shapes as served by https://indexer.dydx.trade/v4
+const fill = (id: string, side: 'BUY' | 'SELL', size: string, price: string, createdAt: string) => ({
+  id,
+  side,
+  liquidity: 'TAKER',
+  type: 'LIMIT',
+  market: 'BTC-USD',
+  marketType: 'PERPETUAL',
+  price,
+  size,
+  fee: '0.5',
+  affiliateRevShare: '0',
+  createdAt,
+  createdAtHeight: '30000000',
+  orderId: `order-${id}`,
+  clientMetadata: '0',
+  subaccountNumber: 0,
+});
+
+const account = {
+  subaccounts: [{
+    address: ADDRESS,
+    subaccountNumber: 0,
+    equity: '10000',
+    freeCollateral: '10000',
+    openPerpetualPositions: {},
+    assetPositions: {},
+    marginEnabled: true,
+    updatedAtHeight: '30000000',
+  }],
+  totalTradingRewards: '0',
+};
+
+// Serves newest-first lists the way the indexer does: createdBeforeOrAt is
+// inclusive and `page` (1-based) pages within it
+function recordedIndexer(fills: any[], { honourPage = true } = {}): DydxIndexer {
+  const lists: Record<string, [string, any[]]> = {
+    '/fills': ['fills', fills],
+    '/transfers': ['transfers', []],
+    '/fundingPayments': ['fundingPayments', []],
+    '/historical-pnl': ['historicalPnl', []],
+  };
+
+  return vi.fn(async (path: string, params: Record<string, string>) => {
+    if (path === `/addresses/${ADDRESS}`) return account;
+
+    const [field, items] = lists[path];
+    const before = params.createdBeforeOrAt;
+    const limit = parseInt(params.limit, 10);
+    const page = honourPage && params.page ? parseInt(params.page, 10) : 1;
+
+    const matching = items
+      .filter(item => !before || item.createdAt <= before)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return { [field]: matching.slice((page - 1) * limit, page * limit) };
+  });
+}
+
+const unix = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+describe('fetchDydxTransactions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('closes a position opened before `from` instead of opening the opposite side', async () => {
+    const indexer = recordedIndexer([
+      fill('a', 'BUY', '0.5', '90000', '2025-01-10T12:00:00.000Z'),
+      fill('b', 'SELL', '0.5', '100000', '2025-02-10T12:00:00.000Z'),
+    ]);
+
+    const rows = await fetchDydxTransactions(ADDRESS, indexer, { from: unix('2025-02-01T00:00:00Z') });
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      kind: 'close',
+      side: 'LONG',
+      asset: 'BTC',
+      quantity: 0.5,
+      entry_price: 90000,
+      exit_price: 100000,
+      pnl: 5000,
+      fees: 1,
+    });
+  });
+
+  it('pages through more than a page of fills sharing one timestamp', async () => {
+    const sameBlock = Array.from({ length: 150 }, (_, i) =>
+      fill(`same-${i}`, 'BUY', '0.01', '95000', '2025-03-01T09:30:00.000Z')
+    );
+    const indexer = recordedIndexer([...sameBlock, fill('older', 'BUY', '1', '94000', '2025-02-28T09:30:00.000Z')]);
+
+    const rows = await fetchDydxTransactions(ADDRESS, indexer);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].kind).toBe('position');
+    expect(rows[0].position_size).toBeCloseTo(2.5);
+  });
+
+  it('steps past the timestamp with a warning when the indexer ignores `page`', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const sameBlock = Array.from({ length: 100 }, (_, i) =>
+      fill(`same-${i}`, 'BUY', '0.01', '95000', '2025-03-01T09:30:00.000Z')
+    );
+    const indexer = recordedIndexer(
+      [...sameBlock, fill('older', 'BUY', '1', '94000', '2025-02-28T09:30:00.000Z')],
+      { honourPage: false }
+    );
+
+    const { result: rows, warnings } = await collectWarnings(() => fetchDydxTransactions(ADDRESS, indexer));
+
+    expect(rows[0].position_size).toBeCloseTo(2);
+    expect(warnings).toEqual([expect.stringContaining('more than 100 entries')]);
+  });
+});
@@ -0,0 +1,229 @@
+// dYdX v4 perp history from the public indexer: fills, funding payments and
+// USDC transfers for every subaccount of a dydx1... address.
+//
+// The indexer client is injectable so recorded responses can stand in for
+// the live API. Historical PnL ticks aren't turned into rows; they're used
+// to check the rebuilt positions against the indexer's own accounting.
+//
+// Fills carry no starting position, so with a `from` date the fills and
+// funding before it are still replayed to know what was open at `from`;
+// only rows from `from` on are returned.
+
+import { buildPositions, type FundingPayment, type PerpFill } from './positions';
+import type { DateRange, PerpTransaction } from './types';
+import { warn } from './warnings';
+
+const EXCHANGE = 'dYdX';
+const CHAIN = 'dydx';
+// Indexer maximum
+const PAGE_SIZE = 100;
+
+// GET `${baseUrl}${path}?${params}` -> parsed JSON
+export type DydxIndexer = (path: string, params: Record<string, string>) => Promise<any>;
+
+export function createDydxIndexer(baseUrl: string): DydxIndexer {
+  return async (path, params) => {
+    const response = await fetch(`${baseUrl}${path}?${new URLSearchParams(params)}`);
+    if (!response.ok) {
+      throw new Error(`dYdX indexer ${path} failed: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  };
+}
+
+export async function fetchDydxTransactions(
+  address: string,
+  indexer: DydxIndexer,
+  options: DateRange = {}
+): Promise<PerpTransaction[]> {
+  if (!address.startsWith('dydx1')) {
+    throw new Error(`Invalid dYdX address: ${address}`);
+  }
+
+  const account = await indexer(`/addresses/${address}`, {});
+  const subaccounts: number[] = (account.subaccounts || []).map((sub: any) => sub.subaccountNumber);
+  const transactions: PerpTransaction[] = [];
+
+  for (const subaccountNumber of subaccounts) {
+    const params = { address, subaccountNumber: String(subaccountNumber) };
+    const history = { to: options.to };
+    const fills = await paginate(indexer, '/fills', 'fills', params, history);
+    const transfers = await paginate(indexer, '/transfers', 'transfers', params, options);
+
+    // Per-subaccount funding payments are a newer indexer endpoint
+    let funding: any[] = [];
+    try {
+      funding = await paginate(indexer, '/fundingPayments', 'fundingPayments', params, history);
+    } catch (err) {
+      warn(`dYdX funding payments unavailable for subaccount ${subaccountNumber}:`, err);
+    }
+
+    let ticks: any[] = [];
+    try {
+      ticks = await paginate(indexer, '/historical-pnl', 'historicalPnl', params, options);
+    } catch (err) {
+      warn(`dYdX PnL history unavailable for subaccount ${subaccountNumber}:`, err);
+    }
+
+    const positions = buildPositions(
+      fills.filter(fill => fill.marketType === 'PERPETUAL').map(fill => toPerpFill(fill, subaccountNumber)),
+      funding.map(payment => toFundingPayment(payment, subaccountNumber)),
+      { exchange: EXCHANGE, chain: CHAIN }
+    );
+
+    // Positions still open are reported however long ago they last changed
+    const inRange = positions.filter(row =>
+      row.kind === 'position' || options.from === undefined || new Date(row.timestamp).getTime() / 1000 >= options.from
+    );
+
+    checkAgainstPnlTicks(inRange, ticks, subaccountNumber);
+    transactions.push(...inRange, ...transfers.flatMap(transferRows));
+  }
+
+  return transactions.sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
+// Indexer lists are newest first; page backwards with createdBeforeOrAt and
+// drop the entries repeated at each boundary. A full page sharing one
+// timestamp (a large order matched in one block) can't be stepped past that
+// way, so it's paged through with `page` first.
+async function paginate(
+  indexer: DydxIndexer,
+  path: string,
+  field: string,
+  params: Record<string, string>,
+  options: DateRange
+): Promise<any[]> {
+  const results: any[] = [];
+  const seen = new Set<string>();
+  let before = options.to !== undefined ? new Date(options.to * 1000 + 999).toISOString() : undefined;
+  let pageNumber = 1;
+
+  for (;;) {
+    const page = await indexer(path, {
+      ...params,
+      limit: String(PAGE_SIZE),
+      ...(before ? { createdBeforeOrAt: before } : {}),
+      ...(pageNumber > 1 ? { page: String(pageNumber) } : {}),
+    });
+    const items: any[] = page[field] || [];
+
+    let added = 0;
+    for (const item of items) {
+      const key = item.id || `${item.createdAt}:${item.ticker || item.market || ''}:${item.blockHeight || ''}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      results.push(item);
+      added++;
+    }
+
+    if (items.length < PAGE_SIZE) break;
+
+    const oldest = items[items.length - 1].createdAt;
+    if (options.from !== undefined && new Date(oldest).getTime() / 1000 < options.from) break;
+
+    if (oldest !== before) {
+      before = oldest;
+      pageNumber = 1;
+    } else if (added > 0 || pageNumber === 1) {
+      pageNumber++;
+    } else {
+      // The indexer ignored `page`; step past the timestamp rather than stop
+      warn(`dYdX ${path}: more than ${PAGE_SIZE} entries at ${before}; some of them may be missing`);
+      before = new Date(new Date(oldest).getTime() - 1).toISOString();
+      pageNumber = 1;
+    }
+  }
+
+  return results.filter(item => {
+    const time = new Date(item.createdAt).getTime() / 1000;
+    return (options.from === undefined || time >= options.from) && (options.to === undefined || time <= options.to);
+  });
+}
+
+// fill: { id, side: 'BUY' | 'SELL', type, market: 'BTC-USD', marketType, price, size, fee, createdAt, ... }
+function toPerpFill(fill: any, subaccountNumber: number): PerpFill {
+  const size = parseFloat(fill.size);
+
+  return {
+    timestamp: fill.createdAt,
+    asset: marketAsset(fill.market),
+    size: fill.side === 'BUY' ? size : -size,
+    price: parseFloat(fill.price),
+    // Negative for maker rebates
+    fee: parseFloat(fill.fee),
+    // Fills aren't tied to a transaction hash on dYdX
+    hash: fill.id,
+    liquidation: fill.type === 'LIQUIDATED' || fill.type === 'DELEVERAGED',
+    positionKey: `${subaccountNumber}:${fill.market}`,
+  };
+}
+
+// payment: { ticker, side: 'LONG' | 'SHORT', size, payment, createdAt, createdAtHeight, ... };
+// `payment` is positive when received
+function toFundingPayment(payment: any, subaccountNumber: number): FundingPayment {
+  const size = parseFloat(payment.size);
+
+  return {
+    timestamp: payment.createdAt,
+    asset: marketAsset(payment.ticker),
+    amount: -parseFloat(payment.payment),
+    hash: `${payment.ticker}-funding-${payment.createdAtHeight}`,
+    positionSize: payment.side === 'SHORT' ? -Math.abs(size) : Math.abs(size),
+    positionKey: `${subaccountNumber}:${payment.ticker}`,
+  };
+}
+
+// type is relative to the queried subaccount: DEPOSIT / TRANSFER_IN add
+// collateral, WITHDRAWAL / TRANSFER_OUT remove it
+function transferRows(transfer: any): PerpTransaction[] {
+  const incoming = transfer.type === 'DEPOSIT' || transfer.type === 'TRANSFER_IN';
+  const outgoing = transfer.type === 'WITHDRAWAL' || transfer.type === 'TRANSFER_OUT';
+  if (!incoming && !outgoing) return [];
+
+  return [{
+    timestamp: transfer.createdAt,
+    asset: transfer.symbol || 'USDC',
+    side: incoming ? 'DEPOSIT' : 'WITHDRAWAL',
+    kind: 'transfer',
+    quantity: parseFloat(transfer.size),
+    position_size: 0,
+    entry_price: 0,
+    fees: 0,
+    funding: 0,
+    exchange: EXCHANGE,
+    hash: transfer.transactionHash || transfer.id,
+    chain: CHAIN,
+    leverage: 0,
+  }];
+}
+
+// The indexer's totalPnl moves by realized PnL net of fees and funding, plus
+// unrealized PnL; with nothing left open the two should agree
+function checkAgainstPnlTicks(rows: PerpTransaction[], ticks: any[], subaccountNumber: number) {
+  if (ticks.length < 2 || rows.some(row => row.kind === 'position')) return;
+
+  const times = ticks.map(tick => new Date(tick.createdAt).getTime());
+  const newest = ticks[times.indexOf(Math.max(...times))];
+  const oldest = ticks[times.indexOf(Math.min(...times))];
+  const indexerPnl = parseFloat(newest.totalPnl) - parseFloat(oldest.totalPnl);
+
+  const start = new Date(oldest.createdAt).getTime();
+  const rebuiltPnl = rows
+    .filter(row => new Date(row.timestamp).getTime() > start)
+    .reduce((sum, row) => sum + (row.pnl || 0) - row.fees - row.funding, 0);
+
+  const difference = Math.abs(indexerPnl - rebuiltPnl);
+  if (difference > 1 && difference > Math.abs(indexerPnl) * 0.01) {
+    warn(
+      `dYdX subaccount ${subaccountNumber}: rebuilt PnL ${rebuiltPnl.toFixed(2)} differs from ` +
+      `the indexer's ${indexerPnl.toFixed(2)}; fills may be missing`
+    );
+  }
+}
+
+function marketAsset(market: string): string {
+  return market.replace(/-USD$/, '');
+}
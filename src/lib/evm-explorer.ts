@@ -0,0 +1,83 @@
+// Incoming native transfers through a block explorer. A plain ETH send from
+// another EOA leaves no log and doesn't touch the recipient's nonce, so plain
+// RPC can't find it without traces. Etherscan's v2 API indexes every
+// transaction by recipient across the chains it covers; it needs
+// ETHERSCAN_API_KEY.
+
+const ETHERSCAN_API_URL = 'https://api.etherscan.io/v2/api';
+
+// Etherscan v2 chain ids
+const EXPLORER_CHAIN_IDS: Record<string, number> = {
+  ethereum: 1,
+  base: 8453,
+  arbitrum: 42161,
+  polygon: 137,
+  optimism: 10,
+};
+
+// txlist returns at most 10,000 rows per query however it's paged
+const PAGE_SIZE = 1000;
+
+export function hasExplorer(chain: string): boolean {
+  return !!process.env.ETHERSCAN_API_KEY && chain in EXPLORER_CHAIN_IDS;
+}
+
+// Hashes of transactions in the range that sent native value to `address`
+export async function fetchIncomingTransactionHashes(
+  chain: string,
+  address: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<string[]> {
+  const chainId = EXPLORER_CHAIN_IDS[chain];
+  const apiKey = process.env.ETHERSCAN_API_KEY;
+  if (!chainId || !apiKey) return [];
+
+  const baseUrl = process.env.ETHERSCAN_API_URL || ETHERSCAN_API_URL;
+  const hashes = new Set<string>();
+  let startBlock = fromBlock;
+
+  while (startBlock <= toBlock) {
+    const params = new URLSearchParams({
+      chainid: String(chainId),
+      module: 'account',
+      action: 'txlist',
+      address,
+      startblock: String(startBlock),
+      endblock: String(toBlock),
+      page: '1',
+      offset: String(PAGE_SIZE),
+      sort: 'asc',
+      apikey: apiKey,
+    });
+
+    const response = await fetch(`${baseUrl}?${params}`);
+    if (!response.ok) {
+      throw new Error(`Explorer request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    // "No transactions found" is status 0 with an empty list
+    if (!Array.isArray(data.result)) {
+      throw new Error(`Explorer request failed: ${data.result || data.message}`);
+    }
+
+    const rows: any[] = data.result;
+    for (const tx of rows) {
+      if (tx.to?.toLowerCase() === address && tx.value !== '0' && tx.isError !== '1') {
+        hashes.add(tx.hash);
+      }
+    }
+
+    if (rows.length < PAGE_SIZE) break;
+
+    // Restart at the last block seen; its rows may be split across pages
+    const lastBlock = parseInt(rows[rows.length - 1].blockNumber, 10);
+    if (lastBlock <= startBlock) {
+      throw new Error(`More than ${PAGE_SIZE} explorer transactions in block ${startBlock}`);
+    }
+    startBlock = lastBlock;
+  }
+
+  return Array.from(hashes);
+}
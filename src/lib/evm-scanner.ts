@@ -0,0 +1,149 @@
+// Block-range scanning for eth_getLogs and trace_filter. Public RPCs cap the
+// range (or the result count) of a single query, and the caps differ per
+// provider, so we walk the range in chunks that shrink on "range too large"
+// errors and grow back while queries succeed. Rate limit errors are retried
+// after a pause without touching the chunk size.
+
+import { RpcError, rpcCall } from './rpc';
+import type { EvmLog } from './evm';
+
+const INITIAL_CHUNK_SIZE = 10_000;
+const MAX_CHUNK_SIZE = 500_000;
+const RATE_LIMIT_RETRIES = 5;
+const RATE_LIMIT_DELAY_MS = 1000;
+
+export interface LogFilter {
+  address?: string | string[];
+  topics: (string | string[] | null)[];
+}
+
+// Provider wording for an oversized eth_getLogs query: "block range is too
+// wide", "query returned more than 10000 results", "exceed maximum block
+// range", "Log response size exceeded", ...
+const RANGE_ERROR_PATTERN = /range|too (large|wide|big)|too many (results|logs|blocks)|more than|exceed|response size/i;
+
+// "429 Too Many Requests", "rate limit exceeded", "request rate exceeded",
+// "throttled". Some providers send these as -32005 too
+const RATE_LIMIT_PATTERN = /too many requests|rate.?limit|rate exceeded|throttl/i;
+
+export function isRangeError(error: unknown): boolean {
+  if (!(error instanceof RpcError) || isRateLimited(error)) return false;
+  return error.code === -32005 || RANGE_ERROR_PATTERN.test(error.message);
+}
+
+function isRateLimited(error: unknown): boolean {
+  if (!(error instanceof RpcError)) return false;
+  return error.code === 429 || RATE_LIMIT_PATTERN.test(error.message);
+}
+
+export async function scanLogs(
+  rpcUrl: string,
+  filter: LogFilter,
+  fromBlock: number,
+  toBlock: number
+): Promise<EvmLog[]> {
+  return scanBlockRange(fromBlock, toBlock, async (start, end) => {
+    const page = await rpcCall<EvmLog[]>(rpcUrl, 'eth_getLogs', [{
+      ...filter,
+      fromBlock: `0x${start.toString(16)}`,
+      toBlock: `0x${end.toString(16)}`,
+    }]);
+    return page || [];
+  });
+}
+
+// Runs `query` over [fromBlock, toBlock] in adaptive chunks; used for any
+// range-limited RPC method (eth_getLogs, trace_filter)
+export async function scanBlockRange<T>(
+  fromBlock: number,
+  toBlock: number,
+  query: (start: number, end: number) => Promise<T[]>
+): Promise<T[]> {
+  const results: T[] = [];
+  let chunkSize = INITIAL_CHUNK_SIZE;
+  let start = fromBlock;
+  let rateLimited = 0;
+
+  while (start <= toBlock) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+
+    try {
+      results.push(...(await query(start, end)));
+      start = end + 1;
+      chunkSize = Math.min(chunkSize * 2, MAX_CHUNK_SIZE);
+      rateLimited = 0;
+    } catch (error) {
+      // Throttling says nothing about the range; back off and ask again as is
+      if (isRateLimited(error) && rateLimited < RATE_LIMIT_RETRIES) {
+        rateLimited++;
+        await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY_MS * rateLimited));
+        continue;
+      }
+      if (!isRangeError(error) || end === start) throw error;
+      chunkSize = Math.max(1, Math.floor((end - start + 1) / 2));
+    }
+  }
+
+  return results;
+}
+
+// First block whose timestamp is >= `timestamp` (unix seconds), found by
+// binary search over block headers
+export async function findBlockByTimestamp(rpcUrl: string, timestamp: number, latestBlock: number): Promise<number> {
+  const blockTime = async (blockNumber: number) => {
+    const block = await rpcCall(rpcUrl, 'eth_getBlockByNumber', [`0x${blockNumber.toString(16)}`, false]);
+    if (!block) throw new Error(`Block ${blockNumber} not found`);
+    return parseInt(block.timestamp, 16);
+  };
+
+  if ((await blockTime(latestBlock)) < timestamp) return latestBlock + 1;
+
+  let low = 0;
+  let high = latestBlock;
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((await blockTime(mid)) < timestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+}
+
+// Blocks in which `wallet` sent transactions. Logs can't find plain ETH sends
+// or contract calls without token movements, but every one of them bumps the
+// sender's nonce, so bisecting eth_getTransactionCount over the range pins
+// down each block where it changed. Needs an archive node.
+export async function findOutgoingBlocks(
+  rpcUrl: string,
+  wallet: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<number[]> {
+  const nonceAt = async (blockNumber: number) =>
+    parseInt(await rpcCall<string>(rpcUrl, 'eth_getTransactionCount', [wallet, `0x${blockNumber.toString(16)}`]), 16);
+
+  const blocks: number[] = [];
+
+  // Nonces are the count *after* each block, so the change happened in (low, high]
+  const bisect = async (low: number, high: number, nonceLow: number, nonceHigh: number): Promise<void> => {
+    if (nonceLow === nonceHigh) return;
+    if (high - low === 1) {
+      blocks.push(high);
+      return;
+    }
+
+    const mid = Math.floor((low + high) / 2);
+    const nonceMid = await nonceAt(mid);
+    await bisect(low, mid, nonceLow, nonceMid);
+    await bisect(mid, high, nonceMid, nonceHigh);
+  };
+
+  const startNonce = fromBlock > 0 ? await nonceAt(fromBlock - 1) : 0;
+  await bisect(fromBlock - 1, toBlock, startNonce, await nonceAt(toBlock));
+
+  return blocks;
+}
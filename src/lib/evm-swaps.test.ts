@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { pairEvmSwap } from './evm-swaps';
+import type { SpotTransaction } from './types';
+
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const WETH = '0xc02aaa39a83c756cc2a5e3e6a3d5fc6b58ce8cd7';
+const PEPE = '0x6982508145454ce325ddbce47a2d3ab3a1c4ec56';
+const UNI = '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984';
+
+// Transfer rows as evm.ts builds them, with their raw amounts alongside
+function transferRows(legs: [side: string, asset: string, token: string, raw: string, decimals: number, fees?: number][]) {
+  const rawAmounts = new Map<SpotTransaction, bigint>();
+  const rows = legs.map(([side, asset, token, raw, decimals, fees = 0]) => {
+    const row: SpotTransaction = {
+      timestamp: '2025-03-01T12:00:00.000Z',
+      asset,
+      side,
+      quantity: Number(raw) / 10 ** decimals,
+      price: 0,
+      total: 0,
+      fees,
+      hash: '0xswap',
+      chain: 'ethereum',
+      token_address: token,
+    };
+    rawAmounts.set(row, BigInt(raw));
+    return row;
+  });
+  return { rows, rawAmount: (row: SpotTransaction) => rawAmounts.get(row)! };
+}
+
+describe('pairEvmSwap', () => {
+  it('drops a hop leg that nets to zero even when its float quantities don\'t', () => {
+    // USDC -> WETH -> PEPE through the wallet; 0.1 + 0.2 - 0.3 isn't 0 as floats
+    const { rows, rawAmount } = transferRows([
+      ['SELL', 'USDC', USDC, '1000000000', 6, 0.002],
+      ['BUY', 'WETH', WETH, '100000000000000000', 18],
+      ['BUY', 'WETH', WETH, '200000000000000000', 18],
+      ['SELL', 'WETH', WETH, '300000000000000000', 18],
+      ['BUY', 'PEPE', PEPE, '50000000000000000000000000', 18],
+    ]);
+
+    const swapped = pairEvmSwap(rows, 'Uniswap V3', rawAmount);
+
+    expect(swapped).toHaveLength(1);
+    expect(swapped[0]).toMatchObject({
+      side: 'SWAP',
+      asset: 'USDC',
+      quantity: 1000,
+      received_asset: 'PEPE',
+      received_quantity: 50_000_000,
+      fees: 0.002,
+    });
+  });
+
+  it('keeps the transaction\'s other rows next to the swap', () => {
+    const { rows, rawAmount } = transferRows([
+      ['SELL', 'USDC', USDC, '1000000000', 6, 0.002],
+      ['BUY', 'WETH', WETH, '300000000000000000', 18],
+      ['INCOME', 'UNI', UNI, '12000000000000000000', 18],
+    ]);
+
+    const swapped = pairEvmSwap(rows, 'Uniswap V3', rawAmount);
+
+    expect(swapped.map(({ side, asset }) => `${side} ${asset}`)).toEqual(['SWAP USDC', 'INCOME UNI']);
+    expect(swapped[0].fees).toBe(0.002);
+  });
+});
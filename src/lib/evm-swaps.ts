@@ -0,0 +1,123 @@
+// Collapses the Transfer legs of an EVM swap into one SWAP row. A transaction
+// counts as a swap when a Uniswap V2- or V3-style pool emitted a Swap event in
+// it, which also covers aggregators (1inch, 0x, Paraswap) routing through
+// those pools.
+
+import type { SpotTransaction } from './types';
+
+// keccak256('Swap(address,uint256,uint256,uint256,uint256,address)')
+export const UNISWAP_V2_SWAP_TOPIC = '0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822';
+// keccak256('Swap(address,address,int256,int256,uint160,uint128,int24)')
+export const UNISWAP_V3_SWAP_TOPIC = '0xc42079f94a6350d7e6235f29174924f928cc2ac818eb64fed8004e115fbcca67';
+
+// Routers deployed at the same address on every chain we support
+const EVM_ROUTERS: Record<string, string> = {
+  '0x7a250d5630b4cf539739df2c5dacb4c659f2488d': 'Uniswap V2',
+  '0xe592427a0aece92de3edee1f18e0157c05861564': 'Uniswap V3',
+  '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45': 'Uniswap V3',
+  '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad': 'Uniswap',
+  '0xef1c6e67703c7bd7107eed8303fbe6ec2554bf6b': 'Uniswap',
+  '0x1111111254eeb25477b68fb85ed929f73a960582': '1inch',
+  '0x111111125421ca6dc452d289314280a0f8842a65': '1inch',
+  '0xdef1c0ded9bec7f1a1670819833240f027b25eff': '0x',
+  '0xdef171fe48cf0115b1d80b88dc8eab59176fee57': 'Paraswap',
+};
+
+// Chains whose native DEX is a Uniswap fork with the same Swap events, so
+// pool swaps there are labelled with the fork's name
+const CHAIN_DEXES: Record<string, { v2: string; v3: string; routers: Record<string, string> }> = {
+  ronin: {
+    v2: 'Katana V2',
+    v3: 'Katana V3',
+    routers: {
+      '0x7d0556d55ca1a92708681e2e231733ebd922597d': 'Katana',
+    },
+  },
+};
+
+// Returns the venue name when the receipt contains a pool Swap event
+export function detectSwapVenue(
+  receiptLogs: { topics: string[] }[],
+  to: string,
+  chain: string
+): string | undefined {
+  const dex = CHAIN_DEXES[chain];
+  let poolVenue: string | undefined;
+
+  for (const log of receiptLogs) {
+    const topic = log.topics[0]?.toLowerCase();
+    if (topic === UNISWAP_V3_SWAP_TOPIC) {
+      poolVenue = dex?.v3 || 'Uniswap V3';
+      break;
+    }
+    if (topic === UNISWAP_V2_SWAP_TOPIC) {
+      poolVenue = poolVenue || dex?.v2 || 'Uniswap V2';
+    }
+  }
+
+  if (!poolVenue) return undefined;
+  const router = to.toLowerCase();
+  return dex?.routers[router] || EVM_ROUTERS[router] || poolVenue;
+}
+
+// Nets a transaction's BUY/SELL rows per asset. If exactly one asset left the
+// wallet and one arrived, they become a single SWAP row, returned with the
+// transaction's other rows; otherwise the rows are returned untouched.
+// `rawAmount` gives a row's amount in the token's smallest unit: summed as
+// floats, a hop through the wallet can leave a non-zero remainder.
+export function pairEvmSwap(
+  rows: SpotTransaction[],
+  venue: string,
+  rawAmount: (row: SpotTransaction) => bigint
+): SpotTransaction[] {
+  const legs = new Map<string, { row: SpotTransaction; net: number; rawNet: bigint }>();
+  const others: SpotTransaction[] = [];
+  let legFees = 0;
+
+  for (const row of rows) {
+    if (row.side !== 'BUY' && row.side !== 'SELL') {
+      others.push(row);
+      continue;
+    }
+    legFees += row.fees;
+
+    const key = row.token_address || row.asset;
+    const sign = row.side === 'BUY' ? 1 : -1;
+    const raw = sign === 1 ? rawAmount(row) : -rawAmount(row);
+    const leg = legs.get(key);
+    if (leg) {
+      leg.net += sign * row.quantity;
+      leg.rawNet += raw;
+    } else {
+      legs.set(key, { row, net: sign * row.quantity, rawNet: raw });
+    }
+  }
+
+  const nonZero = Array.from(legs.values()).filter(leg => leg.rawNet !== BigInt(0));
+  const sold = nonZero.filter(leg => leg.rawNet < BigInt(0));
+  const bought = nonZero.filter(leg => leg.rawNet > BigInt(0));
+  if (sold.length !== 1 || bought.length !== 1) return rows;
+
+  const quantity = -sold[0].net;
+  const receivedQuantity = bought[0].net;
+  const base = sold[0].row;
+
+  return [{
+    timestamp: base.timestamp,
+    asset: base.asset,
+    asset_name: base.asset_name,
+    side: 'SWAP',
+    quantity,
+    price: base.price,
+    total: quantity * base.price,
+    fees: legFees,
+    hash: base.hash,
+    chain: base.chain,
+    token_address: base.token_address,
+    received_asset: bought[0].row.asset,
+    received_quantity: receivedQuantity,
+    received_token_address: bought[0].row.token_address,
+    implied_price: receivedQuantity / quantity,
+    venue,
+  }, ...others];
+}
@@ -0,0 +1,122 @@
+// ERC-20 symbol/name/decimals lookups via batched eth_call, cached per chain
+
+import { createDiskCache, type DiskCache } from './cache';
+import { rpcBatch } from './rpc';
+import type { TokenMetadata } from './types';
+import { warn } from './warnings';
+
+// 4-byte selectors for symbol(), name(), decimals()
+const SYMBOL_SELECTOR = '0x95d89b41';
+const NAME_SELECTOR = '0x06fdde03';
+const DECIMALS_SELECTOR = '0x313ce567';
+
+// Three calls per token, so this stays well under typical batch limits
+const TOKENS_PER_BATCH = 30;
+
+// Tokens resolved without an RPC round trip; Ronin's game tokens show up in
+// nearly every wallet there (note SLP has 0 decimals), as do Optimism's OP
+// governance token and bridged stablecoins
+const KNOWN_TOKENS: Record<string, Record<string, TokenMetadata>> = {
+  optimism: {
+    '0x4200000000000000000000000000000000000042': { symbol: 'OP', name: 'Optimism', decimals: 18 },
+    '0x4200000000000000000000000000000000000006': { symbol: 'WETH', name: 'Wrapped Ether', decimals: 18 },
+    '0x0b2c639c533813f4aa9d7837caf62653d097ff85': { symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+    '0x7f5c764cbc14f9669b88837ca1490cca17c31607': { symbol: 'USDC.e', name: 'Bridged USDC', decimals: 6 },
+  },
+  ronin: {
+    '0xe514d9deb7966c8be0ca922de8a064264ea6bcd4': { symbol: 'WRON', name: 'Wrapped Ronin', decimals: 18 },
+    '0x97a9107c1793bc407d6f527b77e7fff4d812bece': { symbol: 'AXS', name: 'Axie Infinity Shard', decimals: 18 },
+    '0xa8754b9fa15fc18bb59458815510e40a12cd2014': { symbol: 'SLP', name: 'Smooth Love Potion', decimals: 0 },
+    '0xc99a6a985ed2cac1ef41640596c5a5f9f4e19ef5': { symbol: 'WETH', name: 'Ronin Wrapped Ether', decimals: 18 },
+    '0x0b7007c13325c48911f73a2dad5fa5dcbf808adc': { symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+  },
+};
+
+const caches = new Map<string, DiskCache<TokenMetadata>>();
+
+function cacheFor(chain: string): DiskCache<TokenMetadata> {
+  let cache = caches.get(chain);
+  if (!cache) {
+    cache = createDiskCache<TokenMetadata>(`evm-tokens-${chain}`);
+    caches.set(chain, cache);
+  }
+  return cache;
+}
+
+export async function resolveEvmTokens(
+  chain: string,
+  rpcUrl: string,
+  addresses: string[]
+): Promise<Map<string, TokenMetadata>> {
+  const cache = cacheFor(chain);
+  const resolved = new Map<string, TokenMetadata>();
+  const missing: string[] = [];
+
+  for (const address of new Set(addresses.map(a => a.toLowerCase()))) {
+    const cached = KNOWN_TOKENS[chain]?.[address] || (await cache.get(address));
+    if (cached) {
+      resolved.set(address, cached);
+    } else {
+      missing.push(address);
+    }
+  }
+
+  for (let i = 0; i < missing.length; i += TOKENS_PER_BATCH) {
+    const chunk = missing.slice(i, i + TOKENS_PER_BATCH);
+
+    let results: (string | null)[];
+    try {
+      results = await rpcBatch<string>(
+        rpcUrl,
+        chunk.flatMap(address =>
+          [SYMBOL_SELECTOR, NAME_SELECTOR, DECIMALS_SELECTOR].map(data => ({
+            method: 'eth_call',
+            params: [{ to: address, data }, 'latest'],
+          }))
+        )
+      );
+    } catch (err) {
+      warn(`Failed to resolve ${chain} token metadata:`, err);
+      continue;
+    }
+
+    for (const [j, address] of chunk.entries()) {
+      const [symbol, name, decimals] = results.slice(j * 3, j * 3 + 3);
+      // Without decimals() we can't scale amounts, so it isn't a usable ERC-20
+      if (!decimals || decimals === '0x') continue;
+
+      const metadata: TokenMetadata = {
+        symbol: decodeString(symbol) || shortAddress(address),
+        name: decodeString(name) || decodeString(symbol) || shortAddress(address),
+        decimals: Number(BigInt(decimals)),
+      };
+      resolved.set(address, metadata);
+      await cache.set(address, metadata);
+    }
+  }
+
+  await cache.flush();
+  return resolved;
+}
+
+// Decodes an ABI `string` return value, or the `bytes32` some older tokens
+// (MKR, SAI) return instead
+function decodeString(result: string | null | undefined): string {
+  if (!result || result === '0x') return '';
+  const hex = result.slice(2);
+
+  let bytes: Buffer;
+  if (hex.length === 64) {
+    bytes = Buffer.from(hex, 'hex');
+  } else {
+    const offset = parseInt(hex.slice(0, 64), 16) * 2;
+    const length = parseInt(hex.slice(offset, offset + 64), 16);
+    bytes = Buffer.from(hex.slice(offset + 64, offset + 64 + length * 2), 'hex');
+  }
+
+  return bytes.toString('utf8').replace(/\0/g, '').trim();
+}
+
+export function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
@@ -0,0 +1,179 @@
+// Internal value transfers (contract -> wallet or wallet-contract -> anyone)
+// that no log records: DEX refunds of ETH, bridge payouts, smart wallet sends.
+// Uses trace_filter where the node offers it (Erigon, Nethermind, Reth),
+// otherwise debug_traceTransaction with the callTracer (Geth) over the
+// transactions we already know about. The latter can't discover anything
+// the wallet neither sent nor got a token log from, such as a bridge payout
+// or a plain send from another account.
+
+import { scanBlockRange } from './evm-scanner';
+import { RpcError, rpcBatch, rpcCall } from './rpc';
+import { warn } from './warnings';
+
+// debug traces are heavy; keep batches small
+const TRACE_BATCH_SIZE = 10;
+
+export interface InternalTransfer {
+  // Parent transaction hash
+  hash: string;
+  // Hex block number when the tracer reports it
+  blockNumber?: string;
+  from: string;
+  to: string;
+  value: bigint;
+  // The transaction itself rather than a call inside it; only its hash is
+  // needed, the receipt gives the row
+  topLevel?: boolean;
+}
+
+export async function fetchInternalTransfers(
+  rpcUrl: string,
+  wallet: string,
+  fromBlock: number,
+  toBlock: number,
+  knownHashes: string[]
+): Promise<InternalTransfer[]> {
+  const address = wallet.toLowerCase();
+
+  try {
+    return await traceFilter(rpcUrl, address, fromBlock, toBlock, new Set(knownHashes));
+  } catch (error) {
+    if (!isUnsupportedMethod(error)) throw error;
+  }
+
+  try {
+    const transfers = await debugTraceTransactions(rpcUrl, address, knownHashes);
+    warn(
+      'RPC has no trace_filter; only transactions already found were traced, so value received in ' +
+      'transactions the wallet did not send (bridge payouts, contract payouts) may be missing'
+    );
+    return transfers;
+  } catch (error) {
+    if (!isUnsupportedMethod(error)) throw error;
+  }
+
+  warn('RPC supports neither trace_filter nor debug_traceTransaction; internal transfers skipped');
+  return [];
+}
+
+function isUnsupportedMethod(error: unknown): boolean {
+  if (!(error instanceof RpcError)) return false;
+  return error.code === -32601 || /not (found|supported|available)|does not exist|unsupported/i.test(error.message);
+}
+
+async function traceFilter(
+  rpcUrl: string,
+  address: string,
+  fromBlock: number,
+  toBlock: number,
+  knownHashes: Set<string>
+): Promise<InternalTransfer[]> {
+  const traces = await scanBlockRange(fromBlock, toBlock, async (start, end) => {
+    const range = { fromBlock: `0x${start.toString(16)}`, toBlock: `0x${end.toString(16)}` };
+    // Querying both address sides in one filter is AND on some clients, so ask twice
+    const sent = await rpcCall<any[]>(rpcUrl, 'trace_filter', [{ ...range, fromAddress: [address] }]);
+    const received = await rpcCall<any[]>(rpcUrl, 'trace_filter', [{ ...range, toAddress: [address] }]);
+    return [...(sent || []), ...(received || [])];
+  });
+
+  // A reverted frame moved nothing, and neither did anything below it. Only
+  // frames one of the two filters returned are known here; a reverted
+  // transaction is dropped by its receipt instead
+  const reverted = new Set(traces.filter(trace => trace.error).map(traceKey));
+
+  const seen = new Set<string>();
+  const transfers: InternalTransfer[] = [];
+
+  for (const trace of traces) {
+    if (trace.type !== 'call' && trace.type !== 'create') continue;
+    if (trace.action?.callType && trace.action.callType !== 'call') continue;
+    // traceAddress [] is the transaction itself. Receipts cover the ones we
+    // already know; the rest are plain sends into the wallet from elsewhere
+    const traceAddress: number[] = trace.traceAddress || [];
+    if (traceAddress.length === 0 && knownHashes.has(trace.transactionHash)) continue;
+
+    const key = traceKey(trace);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const insideRevert = traceAddress.some((_, depth) =>
+      reverted.has(`${trace.transactionHash}:${traceAddress.slice(0, depth).join('.')}`)
+    );
+    if (trace.error || insideRevert) continue;
+
+    // A create's new contract is in its result, the way callTracer reports it as `to`
+    const action = trace.type === 'create' ? { ...trace.action, to: trace.result?.address } : trace.action;
+    const transfer = toTransfer(trace.transactionHash, action, address);
+    if (transfer) {
+      transfers.push({
+        ...transfer,
+        blockNumber: `0x${Number(trace.blockNumber).toString(16)}`,
+        topLevel: traceAddress.length === 0,
+      });
+    }
+  }
+
+  return transfers;
+}
+
+function traceKey(trace: any): string {
+  return `${trace.transactionHash}:${(trace.traceAddress || []).join('.')}`;
+}
+
+async function debugTraceTransactions(
+  rpcUrl: string,
+  address: string,
+  hashes: string[]
+): Promise<InternalTransfer[]> {
+  if (hashes.length === 0) return [];
+
+  // Probe once so an unsupported method surfaces as an RpcError rather than
+  // a batch full of nulls
+  await rpcCall(rpcUrl, 'debug_traceTransaction', [hashes[0], { tracer: 'callTracer' }]);
+
+  const transfers: InternalTransfer[] = [];
+
+  for (let i = 0; i < hashes.length; i += TRACE_BATCH_SIZE) {
+    const chunk = hashes.slice(i, i + TRACE_BATCH_SIZE);
+    const traces = await rpcBatch(
+      rpcUrl,
+      chunk.map(hash => ({ method: 'debug_traceTransaction', params: [hash, { tracer: 'callTracer' }] }))
+    );
+
+    chunk.forEach((hash, j) => {
+      const root = traces[j];
+      if (!root) {
+        warn(`Failed to trace transaction ${hash}`);
+        return;
+      }
+      collectCalls(root.calls || [], hash, address, transfers);
+    });
+  }
+
+  return transfers;
+}
+
+function collectCalls(calls: any[], hash: string, address: string, transfers: InternalTransfer[]) {
+  for (const call of calls) {
+    // A reverted frame moved nothing, and neither did anything below it
+    if (call.error) continue;
+
+    if (call.type === 'CALL' || call.type === 'CREATE' || call.type === 'CREATE2') {
+      const transfer = toTransfer(hash, call, address);
+      if (transfer) transfers.push(transfer);
+    }
+
+    collectCalls(call.calls || [], hash, address, transfers);
+  }
+}
+
+function toTransfer(hash: string, action: any, address: string): InternalTransfer | null {
+  const from = (action?.from || '').toLowerCase();
+  const to = (action?.to || '').toLowerCase();
+  const value = action?.value && action.value !== '0x' ? BigInt(action.value) : BigInt(0);
+
+  if (value === BigInt(0) || from === to) return null;
+  if (from !== address && to !== address) return null;
+
+  return { hash, from, to, value };
+}
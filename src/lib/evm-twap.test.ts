@@ -0,0 +1,126 @@
+import { decodeFunctionData, encodeAbiParameters, encodeFunctionResult, parseAbi } from 'viem';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createUniswapV3Source } from './evm-twap';
+import { RpcFixtureError, stubRpc } from './test-fetch';
+
+const RPC_URL = 'https://rpc.example';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const POOL = '0x8ad599c3a0ff1de082011efddc58f1908eb6e6d8';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+const BLOCK = '0x1312d00';
+
+const UNISWAP_ABI = parseAbi([
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)',
+  'function liquidity() view returns (uint128)',
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+]);
+
+const ERC20_SELECTORS: Record<string, 'symbol' | 'name' | 'decimals'> = {
+  '0x95d89b41': 'symbol',
+  '0x06fdde03': 'name',
+  '0x313ce567': 'decimals',
+};
+
+interface PoolFixture {
+  token: string;
+  symbol: string;
+  decimals: number;
+  tick: number;
+  // observe() reverts with OLD, as on a pool without enough observations
+  observeReverts?: boolean;
+}
+
+// Answers the calls the source makes for one token/USDC pool at BLOCK
+function answer(fixture: PoolFixture, method: string, params: any[]): unknown {
+  if (method === 'eth_getTransactionReceipt') return { transactionHash: params[0], blockNumber: BLOCK, status: '0x1' };
+  if (method !== 'eth_call') throw new RpcFixtureError(-32601, `${method} not found`);
+
+  const { to, data } = params[0];
+  const erc20 = ERC20_SELECTORS[data];
+  if (erc20) {
+    const isUsdc = to === USDC;
+    if (erc20 === 'decimals') return encodeAbiParameters([{ type: 'uint8' }], [isUsdc ? 6 : fixture.decimals]);
+    const text = isUsdc ? 'USDC' : fixture.symbol;
+    return encodeAbiParameters([{ type: 'string' }], [text]);
+  }
+
+  const call = decodeFunctionData({ abi: UNISWAP_ABI, data });
+  switch (call.functionName) {
+    case 'getPool': {
+      // Only the 0.3% tier exists
+      const pool = call.args[2] === 3000 ? POOL : '0x0000000000000000000000000000000000000000';
+      return encodeFunctionResult({ abi: UNISWAP_ABI, functionName: 'getPool', result: pool });
+    }
+    case 'liquidity':
+      return encodeFunctionResult({ abi: UNISWAP_ABI, functionName: 'liquidity', result: BigInt(10) ** BigInt(18) });
+    case 'observe': {
+      if (fixture.observeReverts) throw new RpcFixtureError(3, 'execution reverted: OLD');
+      const [window] = call.args[0];
+      return encodeFunctionResult({
+        abi: UNISWAP_ABI,
+        functionName: 'observe',
+        result: [[BigInt(0), BigInt(fixture.tick * window)], [BigInt(0), BigInt(0)]],
+      });
+    }
+    case 'slot0':
+      return encodeFunctionResult({
+        abi: UNISWAP_ABI,
+        functionName: 'slot0',
+        result: [BigInt(0), fixture.tick, 0, 1, 1, 0, true],
+      });
+  }
+  throw new RpcFixtureError(-32000, 'execution reverted');
+}
+
+const stubPool = (fixture: PoolFixture) => stubRpc((method, params) => answer(fixture, method, params));
+
+// Tick whose price, scaled from raw token0-in-token1 units, is `price`
+const tickFor = (price: number, decimals0: number, decimals1: number) =>
+  Math.floor(Math.log(price / 10 ** (decimals0 - decimals1)) / Math.log(1.0001));
+
+const query = (token: string) => ({
+  asset: 'TKN',
+  chain: 'ethereum',
+  tokenAddress: token,
+  timestamp: 1_700_000_000,
+  hash: TX_HASH,
+});
+
+describe('createUniswapV3Source', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('scales the TWAP tick by both decimals when the token is token0', async () => {
+    // Sorts below USDC, so the tick prices the token in USDC
+    const token = '0x1111111111111111111111111111111111111111';
+    stubPool({ token, symbol: 'TKN', decimals: 18, tick: tickFor(2.5, 18, 6) });
+
+    const price = await createUniswapV3Source(() => RPC_URL).getPrice(query(token));
+
+    expect(price).toBeDefined();
+    expect(Math.abs(price! / 2.5 - 1)).toBeLessThan(2e-4);
+  });
+
+  it('inverts the pool price when the token is token1', async () => {
+    // Sorts above USDC, so the tick prices USDC in the token
+    const token = '0xfff9976782d46cc05630d1f6ebab18b2324d6b14';
+    stubPool({ token, symbol: 'TKN2', decimals: 8, tick: tickFor(1 / 40_000, 6, 8) });
+
+    const price = await createUniswapV3Source(() => RPC_URL).getPrice(query(token));
+
+    expect(price).toBeDefined();
+    expect(Math.abs(price! / 40_000 - 1)).toBeLessThan(2e-4);
+  });
+
+  it('falls back to the slot0 tick when observe() reverts with OLD', async () => {
+    const token = '0x2222222222222222222222222222222222222222';
+    stubPool({ token, symbol: 'TKN3', decimals: 18, tick: tickFor(0.125, 18, 6), observeReverts: true });
+
+    const price = await createUniswapV3Source(() => RPC_URL).getPrice(query(token));
+
+    expect(price).toBeDefined();
+    expect(Math.abs(price! / 0.125 - 1)).toBeLessThan(2e-4);
+  });
+});
@@ -0,0 +1,206 @@
+// Uniswap V3 prices for EVM tokens no price provider lists. The token's
+// deepest pool against USDC (or the wrapped native token, converted through
+// its own USDC pool) is read at the block of the transaction being priced:
+// the time-weighted average tick over the preceding half hour from
+// observe(), or the current tick from slot0() when the pool doesn't keep
+// enough observations for the window.
+//
+// Reading state at a past block needs an archive node. A local fork
+// (anvil --fork-url ... --fork-block-number ...) or a fixture RPC works as
+// well: pass its URL through `rpcUrlFor` or <CHAIN>_RPC_URL.
+
+import { decodeFunctionResult, encodeFunctionData, parseAbi } from 'viem';
+import { CHAIN_NATIVE_ASSET, getRpcUrl } from './chains';
+import { findBlockByTimestamp } from './evm-scanner';
+import { resolveEvmTokens } from './evm-tokens';
+import type { PriceQuery, PriceSource } from './price-sources';
+import { RpcError, rpcBatch, rpcCall } from './rpc';
+
+const TWAP_WINDOW = 1800;
+const FEE_TIERS = [500, 3000, 10000, 100];
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+interface UniswapDeployment {
+  factory: string;
+  // Quote asset taken at $1
+  usdc: string;
+  // Stands in for the native asset, and is the fallback quote
+  wrappedNative: string;
+}
+
+const UNISWAP_V3: Record<string, UniswapDeployment> = {
+  ethereum: {
+    factory: '0x1f98431c8ad98523631ae4a59f267346ea31f984',
+    usdc: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+    wrappedNative: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+  },
+  arbitrum: {
+    factory: '0x1f98431c8ad98523631ae4a59f267346ea31f984',
+    usdc: '0xaf88d065e77c8cc2239327c5edb3a432268e5831',
+    wrappedNative: '0x82af49447d8a07e3bd95bd0d56f35241523fbab1',
+  },
+  optimism: {
+    factory: '0x1f98431c8ad98523631ae4a59f267346ea31f984',
+    usdc: '0x0b2c639c533813f4aa9d7837caf62653d097ff85',
+    wrappedNative: '0x4200000000000000000000000000000000000006',
+  },
+  polygon: {
+    factory: '0x1f98431c8ad98523631ae4a59f267346ea31f984',
+    usdc: '0x3c499c542cef5e3811e1192ce70d8cc03d5c3359',
+    wrappedNative: '0x0d500b1d8e8ef31e21c99d1db9a6444d3adf1270',
+  },
+  base: {
+    factory: '0x33128a8fc17869897dce68ed026d694621f6fdfd',
+    usdc: '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+    wrappedNative: '0x4200000000000000000000000000000000000006',
+  },
+};
+
+const UNISWAP_ABI = parseAbi([
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)',
+  'function liquidity() view returns (uint128)',
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+]);
+
+export function createUniswapV3Source(
+  rpcUrlFor: (chain: string) => string | undefined = getRpcUrl
+): PriceSource {
+  // Pool addresses never change once deployed
+  const pools = new Map<string, string[]>();
+
+  return {
+    name: 'uniswap-v3-twap',
+    async getPrice(query) {
+      const deployment = UNISWAP_V3[query.chain];
+      const rpcUrl = rpcUrlFor(query.chain);
+      if (!deployment || !rpcUrl) return undefined;
+
+      const token = query.tokenAddress
+        ? query.tokenAddress.toLowerCase()
+        : query.asset === CHAIN_NATIVE_ASSET[query.chain] ? deployment.wrappedNative : undefined;
+      if (!token || token === deployment.usdc) return undefined;
+
+      const block = await blockFor(rpcUrl, query);
+      const context = { chain: query.chain, rpcUrl, block, pools, deployment };
+
+      const inUsdc = await poolPrice(context, token, deployment.usdc);
+      if (inUsdc !== undefined || token === deployment.wrappedNative) return inUsdc;
+
+      const inNative = await poolPrice(context, token, deployment.wrappedNative);
+      if (inNative === undefined) return undefined;
+      const nativeUsd = await poolPrice(context, deployment.wrappedNative, deployment.usdc);
+      return nativeUsd === undefined ? undefined : inNative * nativeUsd;
+    },
+  };
+}
+
+interface PoolContext {
+  chain: string;
+  rpcUrl: string;
+  // Hex block number the pools are read at
+  block: string;
+  pools: Map<string, string[]>;
+  deployment: UniswapDeployment;
+}
+
+// The priced transaction's own block when its receipt is available,
+// otherwise the first block at or after the timestamp
+async function blockFor(rpcUrl: string, query: PriceQuery): Promise<string> {
+  if (query.hash && /^0x[0-9a-fA-F]{64}$/.test(query.hash)) {
+    const receipt = await rpcCall(rpcUrl, 'eth_getTransactionReceipt', [query.hash]);
+    if (receipt?.blockNumber) return receipt.blockNumber;
+  }
+
+  const latest = parseInt(await rpcCall<string>(rpcUrl, 'eth_blockNumber'), 16);
+  const block = Math.min(await findBlockByTimestamp(rpcUrl, query.timestamp, latest), latest);
+  return `0x${block.toString(16)}`;
+}
+
+// Units of `quote` per unit of `token` in the deepest pool of the pair
+async function poolPrice(context: PoolContext, token: string, quote: string): Promise<number | undefined> {
+  const { rpcUrl, block } = context;
+  const candidates = await findPools(context, token, quote);
+  if (candidates.length === 0) return undefined;
+
+  // Pools created after the block have no code there and come back null
+  const liquidity = await rpcBatch<string>(rpcUrl, candidates.map(pool => ({
+    method: 'eth_call',
+    params: [{ to: pool, data: encodeFunctionData({ abi: UNISWAP_ABI, functionName: 'liquidity' }) }, block],
+  })));
+
+  let deepest: string | undefined;
+  let deepestLiquidity = BigInt(0);
+  candidates.forEach((pool, i) => {
+    const result = liquidity[i];
+    if (!result || result === '0x') return;
+    const value = decodeFunctionResult({ abi: UNISWAP_ABI, functionName: 'liquidity', data: result as `0x${string}` });
+    if (value > deepestLiquidity) {
+      deepest = pool;
+      deepestLiquidity = value;
+    }
+  });
+  if (!deepest) return undefined;
+
+  const tick = await averageTick(rpcUrl, deepest, block);
+
+  const tokens = await resolveEvmTokens(context.chain, rpcUrl, [token, quote]);
+  const tokenDecimals = tokens.get(token)?.decimals;
+  const quoteDecimals = tokens.get(quote)?.decimals;
+  if (tokenDecimals === undefined || quoteDecimals === undefined) return undefined;
+
+  // Pools order their tokens by address; the tick prices token0 in token1
+  const tokenIsToken0 = BigInt(token) < BigInt(quote);
+  const [decimals0, decimals1] = tokenIsToken0 ? [tokenDecimals, quoteDecimals] : [quoteDecimals, tokenDecimals];
+  const price0in1 = 1.0001 ** tick * 10 ** (decimals0 - decimals1);
+
+  return tokenIsToken0 ? price0in1 : 1 / price0in1;
+}
+
+async function findPools(context: PoolContext, token: string, quote: string): Promise<string[]> {
+  const key = `${context.chain}:${token}:${quote}`;
+  const cached = context.pools.get(key);
+  if (cached) return cached;
+
+  const results = await rpcBatch<string>(context.rpcUrl, FEE_TIERS.map(fee => ({
+    method: 'eth_call',
+    params: [{
+      to: context.deployment.factory,
+      data: encodeFunctionData({
+        abi: UNISWAP_ABI,
+        functionName: 'getPool',
+        args: [token as `0x${string}`, quote as `0x${string}`, fee],
+      }),
+    }, 'latest'],
+  })));
+
+  const pools = results
+    .filter((result): result is string => !!result && result !== '0x')
+    .map(result => decodeFunctionResult({ abi: UNISWAP_ABI, functionName: 'getPool', data: result as `0x${string}` }).toLowerCase())
+    .filter(pool => pool !== ZERO_ADDRESS);
+
+  context.pools.set(key, pools);
+  return pools;
+}
+
+// observe() reverts with 'OLD' when the oldest stored observation is newer
+// than the window; the spot tick is the best the pool can offer then
+async function averageTick(rpcUrl: string, pool: string, block: string): Promise<number> {
+  try {
+    const result = await rpcCall<string>(rpcUrl, 'eth_call', [{
+      to: pool,
+      data: encodeFunctionData({ abi: UNISWAP_ABI, functionName: 'observe', args: [[TWAP_WINDOW, 0]] }),
+    }, block]);
+    const [tickCumulatives] = decodeFunctionResult({ abi: UNISWAP_ABI, functionName: 'observe', data: result as `0x${string}` });
+    return Math.floor(Number(tickCumulatives[1] - tickCumulatives[0]) / TWAP_WINDOW);
+  } catch (err) {
+    if (!(err instanceof RpcError) || !/revert|OLD/i.test(err.message)) throw err;
+  }
+
+  const result = await rpcCall<string>(rpcUrl, 'eth_call', [{
+    to: pool,
+    data: encodeFunctionData({ abi: UNISWAP_ABI, functionName: 'slot0' }),
+  }, block]);
+  const [, tick] = decodeFunctionResult({ abi: UNISWAP_ABI, functionName: 'slot0', data: result as `0x${string}` });
+  return tick;
+}
@@ -0,0 +1,421 @@
+// EVM spot history (Ethereum, Base, Arbitrum, Polygon, Optimism, Ronin) via plain JSON-RPC
+
+import { AIRDROP_DISTRIBUTORS, CHAIN_NATIVE_ASSET, NATIVE_MIRROR_TOKENS, OP_STACK_CHAINS } from './chains';
+import { fetchIncomingTransactionHashes, hasExplorer } from './evm-explorer';
+import { findBlockByTimestamp, findOutgoingBlocks, scanLogs } from './evm-scanner';
+import { detectSwapVenue, pairEvmSwap } from './evm-swaps';
+import { fetchInternalTransfers, type InternalTransfer } from './evm-traces';
+import { resolveEvmTokens } from './evm-tokens';
+import { rpcBatch, rpcCall } from './rpc';
+import type { DateRange, SpotTransaction } from './types';
+import { warn } from './warnings';
+
+// keccak256('Transfer(address,address,uint256)')
+export const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const BLOCK_BATCH_SIZE = 50;
+// Two calls (transaction + receipt) per hash
+const TRANSACTION_BATCH_SIZE = 25;
+const NATIVE_DECIMALS = 18;
+// Scan window used when the caller gives neither a start block nor a date
+const DEFAULT_LOOKBACK_SECONDS = 365 * 24 * 60 * 60;
+
+export interface EvmFetchOptions extends DateRange {
+  // Explicit block bounds take precedence over from/to dates
+  fromBlock?: number;
+  toBlock?: number;
+  // Also pull internal value transfers via trace_filter / debug_traceTransaction
+  traces?: boolean;
+}
+
+// What we need from eth_getTransactionByHash + eth_getTransactionReceipt
+interface TransactionDetails {
+  from: string;
+  to: string;
+  value: bigint;
+  // Total fee in wei: gasUsed * effectiveGasPrice, plus the L1 data fee on OP-stack chains
+  fee: bigint;
+  blockNumber: string;
+  success: boolean;
+  // Set when a DEX pool emitted a Swap event in this transaction
+  swapVenue?: string;
+}
+
+export interface EvmLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+export async function fetchEVMTransactions(
+  wallet: string,
+  chain: string,
+  rpcUrl: string,
+  options: EvmFetchOptions = {}
+): Promise<SpotTransaction[]> {
+  wallet = normalizeEvmAddress(wallet);
+  const { fromBlock, toBlock } = await resolveBlockRange(rpcUrl, options);
+  if (fromBlock > toBlock) return [];
+
+  const address = wallet.toLowerCase();
+  const mirrorTokens = NATIVE_MIRROR_TOKENS[chain] || [];
+  const distributors = AIRDROP_DISTRIBUTORS[chain] || [];
+  const logs = await fetchTransferLogs(wallet, rpcUrl, fromBlock, toBlock);
+  const isMirror = (log: EvmLog) => mirrorTokens.includes(log.address.toLowerCase());
+
+  let sentHashes: string[] = [];
+  try {
+    sentHashes = await fetchSentTransactionHashes(rpcUrl, address, fromBlock, toBlock);
+  } catch (err) {
+    warn(`Could not enumerate sent transactions on ${chain} (archive node required):`, err);
+  }
+
+  // Plain native sends from other wallets show up in neither logs nor our
+  // nonce; an explorer or trace_filter (with traces on) are the only ways in
+  let receivedHashes: string[] = [];
+  if (hasExplorer(chain)) {
+    try {
+      receivedHashes = await fetchIncomingTransactionHashes(chain, address, fromBlock, toBlock);
+    } catch (err) {
+      warn(`Could not list incoming transfers on ${chain} from the explorer:`, err);
+    }
+  } else if (!options.traces) {
+    warn(
+      `Incoming native transfers on ${chain} are not covered: native sends from other accounts ` +
+      'need ETHERSCAN_API_KEY (Etherscan-indexed chains) or traces'
+    );
+  }
+
+  const knownHashes = Array.from(new Set([
+    ...logs.map(log => log.transactionHash),
+    ...sentHashes,
+    ...receivedHashes,
+  ]));
+
+  let internalTransfers: InternalTransfer[] = [];
+  if (options.traces) {
+    internalTransfers = await fetchInternalTransfers(rpcUrl, address, fromBlock, toBlock, knownHashes);
+  }
+
+  const hashes = Array.from(new Set([...knownHashes, ...internalTransfers.map(transfer => transfer.hash)]));
+  const details = await fetchTransactionDetails(rpcUrl, hashes, chain);
+  const timestamps = await fetchBlockTimestamps(rpcUrl, [
+    ...logs.map(log => log.blockNumber),
+    ...Array.from(details.values()).map(tx => tx.blockNumber),
+  ]);
+  const tokens = await resolveEvmTokens(chain, rpcUrl, logs.filter(log => !isMirror(log)).map(log => log.address));
+  const nativeAsset = CHAIN_NATIVE_ASSET[chain] || 'ETH';
+
+  const toTimestamp = (blockNumber: string) => {
+    const blockTime = timestamps.get(blockNumber);
+    return blockTime ? new Date(blockTime * 1000).toISOString() : new Date().toISOString();
+  };
+
+  const rowsByHash = new Map<string, SpotTransaction[]>();
+  // Amounts in the token's smallest unit, so swap legs net exactly
+  const rawAmounts = new Map<SpotTransaction, bigint>();
+  const addRow = (row: SpotTransaction, rawAmount?: bigint) => {
+    const rows = rowsByHash.get(row.hash) || [];
+    rows.push(row);
+    rowsByHash.set(row.hash, rows);
+    if (rawAmount !== undefined) rawAmounts.set(row, rawAmount);
+  };
+
+  // Transactions whose native movements the mirror logs already recorded
+  const mirroredHashes = new Set<string>();
+
+  for (const log of logs) {
+    const from = topicToAddress(log.topics[1]);
+    const to = topicToAddress(log.topics[2]);
+    // Self-transfers don't change the wallet's holdings
+    if (from === to) continue;
+
+    // A mirror log is the native value movement itself, top-level or internal
+    if (isMirror(log)) {
+      mirroredHashes.add(log.transactionHash);
+      const amount = hexToBigInt(log.data);
+      addRow({
+        timestamp: toTimestamp(log.blockNumber),
+        asset: nativeAsset,
+        side: from === address ? 'SELL' : 'BUY',
+        quantity: Number(amount) / 10 ** NATIVE_DECIMALS,
+        price: 0,
+        total: 0,
+        fees: 0,
+        hash: log.transactionHash,
+        chain,
+      }, amount);
+      continue;
+    }
+
+    const token = log.address.toLowerCase();
+    const metadata = tokens.get(token);
+    if (!metadata) {
+      warn(`Skipping transfer of unknown token ${token} in ${log.transactionHash}`);
+      continue;
+    }
+
+    const amount = hexToBigInt(log.data);
+    addRow({
+      timestamp: toTimestamp(log.blockNumber),
+      asset: metadata.symbol,
+      asset_name: metadata.name,
+      side: from === address ? 'SELL' : distributors.includes(from) ? 'INCOME' : 'BUY',
+      quantity: Number(amount) / 10 ** metadata.decimals,
+      price: 0,
+      total: 0,
+      fees: 0,
+      hash: log.transactionHash,
+      chain,
+      token_address: token,
+    }, amount);
+  }
+
+  for (const transfer of internalTransfers) {
+    if (transfer.topLevel || mirroredHashes.has(transfer.hash)) continue;
+    const parent = details.get(transfer.hash);
+    // A reverted transaction undid every call inside it
+    if (parent?.success === false) continue;
+
+    const blockNumber = parent?.blockNumber || transfer.blockNumber;
+    if (!blockNumber) {
+      warn(`Skipping internal transfer in ${transfer.hash}: its block is unknown`);
+      continue;
+    }
+    addRow({
+      timestamp: toTimestamp(blockNumber),
+      asset: nativeAsset,
+      side: transfer.from === address ? 'SELL' : 'BUY',
+      quantity: Number(transfer.value) / 10 ** NATIVE_DECIMALS,
+      price: 0,
+      total: 0,
+      fees: 0,
+      hash: transfer.hash,
+      chain,
+      internal: true,
+    }, transfer.value);
+  }
+
+  for (const [hash, tx] of details) {
+    const timestamp = toTimestamp(tx.blockNumber);
+    const isSender = tx.from === address;
+
+    // A reverted call moves no value but still burns gas
+    if (
+      tx.success && tx.value > BigInt(0) && tx.from !== tx.to && (isSender || tx.to === address) &&
+      !mirroredHashes.has(hash)
+    ) {
+      addRow({
+        timestamp,
+        asset: nativeAsset,
+        side: isSender ? 'SELL' : 'BUY',
+        quantity: Number(tx.value) / 10 ** NATIVE_DECIMALS,
+        price: 0,
+        total: 0,
+        fees: 0,
+        hash,
+        chain,
+      }, tx.value);
+    }
+
+    // Only the sender pays gas; attach it to one row so totals don't double count
+    if (!isSender || tx.fee === BigInt(0)) continue;
+    const fee = Number(tx.fee) / 10 ** NATIVE_DECIMALS;
+    const rows = rowsByHash.get(hash);
+
+    if (rows) {
+      rows[0].fees = fee;
+    } else {
+      addRow({
+        timestamp,
+        asset: nativeAsset,
+        side: 'FEE',
+        quantity: 0,
+        price: 0,
+        total: 0,
+        fees: fee,
+        hash,
+        chain,
+      });
+    }
+  }
+
+  for (const [hash, tx] of details) {
+    const rows = rowsByHash.get(hash);
+    if (tx.swapVenue && rows) {
+      rowsByHash.set(hash, pairEvmSwap(rows, tx.swapVenue, row => rawAmounts.get(row) ?? BigInt(0)));
+    }
+  }
+
+  const transactions = Array.from(rowsByHash.values()).flat();
+
+  return transactions.sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
+// ERC-20 Transfer logs where the wallet is the sender (topic1) or the
+// recipient (topic2), emitted by any token contract. ERC-721 transfers share
+// the signature but index the token id as a fourth topic, so they're dropped.
+export async function fetchTransferLogs(
+  wallet: string,
+  rpcUrl: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<EvmLog[]> {
+  const walletTopic = addressToTopic(wallet);
+
+  const outgoing = await scanLogs(rpcUrl, { topics: [TRANSFER_TOPIC, walletTopic] }, fromBlock, toBlock);
+  const incoming = await scanLogs(rpcUrl, { topics: [TRANSFER_TOPIC, null, walletTopic] }, fromBlock, toBlock);
+
+  const seen = new Set<string>();
+  return [...outgoing, ...incoming].filter(log => {
+    if (log.topics.length !== 3) return false;
+    const key = `${log.transactionHash}:${log.logIndex}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Turns block/date bounds into a concrete block range, resolving dates by
+// binary search. Without any bounds the last year up to head is scanned.
+export async function resolveBlockRange(
+  rpcUrl: string,
+  options: EvmFetchOptions
+): Promise<{ fromBlock: number; toBlock: number }> {
+  const latestBlock = parseInt(await rpcCall<string>(rpcUrl, 'eth_blockNumber'), 16);
+
+  let fromBlock = options.fromBlock;
+  if (fromBlock === undefined) {
+    const from = options.from ?? Math.floor(Date.now() / 1000) - DEFAULT_LOOKBACK_SECONDS;
+    fromBlock = await findBlockByTimestamp(rpcUrl, from, latestBlock);
+  }
+
+  let toBlock = options.toBlock ?? latestBlock;
+  if (options.toBlock === undefined && options.to !== undefined) {
+    // Last block at or before `to`
+    toBlock = (await findBlockByTimestamp(rpcUrl, options.to + 1, latestBlock)) - 1;
+  }
+
+  return { fromBlock, toBlock: Math.min(toBlock, latestBlock) };
+}
+
+// Hashes of every transaction the wallet signed within the range
+async function fetchSentTransactionHashes(
+  rpcUrl: string,
+  address: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<string[]> {
+  const blockNumbers = await findOutgoingBlocks(rpcUrl, address, fromBlock, toBlock);
+  const hashes: string[] = [];
+
+  for (let i = 0; i < blockNumbers.length; i += BLOCK_BATCH_SIZE) {
+    const chunk = blockNumbers.slice(i, i + BLOCK_BATCH_SIZE);
+    const blocks = await rpcBatch(
+      rpcUrl,
+      chunk.map(blockNumber => ({ method: 'eth_getBlockByNumber', params: [toHex(blockNumber), true] }))
+    );
+
+    for (const block of blocks) {
+      for (const tx of block?.transactions || []) {
+        if (tx.from?.toLowerCase() === address) hashes.push(tx.hash);
+      }
+    }
+  }
+
+  return hashes;
+}
+
+async function fetchTransactionDetails(
+  rpcUrl: string,
+  hashes: string[],
+  chain: string
+): Promise<Map<string, TransactionDetails>> {
+  const opStack = OP_STACK_CHAINS.has(chain);
+  const details = new Map<string, TransactionDetails>();
+
+  for (let i = 0; i < hashes.length; i += TRANSACTION_BATCH_SIZE) {
+    const chunk = hashes.slice(i, i + TRANSACTION_BATCH_SIZE);
+    const results = await rpcBatch(
+      rpcUrl,
+      chunk.flatMap(hash => [
+        { method: 'eth_getTransactionByHash', params: [hash] },
+        { method: 'eth_getTransactionReceipt', params: [hash] },
+      ])
+    );
+
+    chunk.forEach((hash, j) => {
+      const tx = results[j * 2];
+      const receipt = results[j * 2 + 1];
+      if (!tx || !receipt) {
+        warn(`Failed to fetch transaction ${hash}`);
+        return;
+      }
+
+      // Pre-London receipts have no effectiveGasPrice; the tx gasPrice is what was paid
+      const gasPrice = hexToBigInt(receipt.effectiveGasPrice || tx.gasPrice);
+      let fee = hexToBigInt(receipt.gasUsed) * gasPrice;
+      if (opStack) fee += hexToBigInt(receipt.l1Fee);
+
+      details.set(hash, {
+        from: (tx.from || '').toLowerCase(),
+        to: (tx.to || '').toLowerCase(),
+        value: hexToBigInt(tx.value),
+        fee,
+        blockNumber: tx.blockNumber,
+        success: receipt.status !== '0x0',
+        swapVenue: detectSwapVenue(receipt.logs || [], tx.to || '', chain),
+      });
+    });
+  }
+
+  return details;
+}
+
+// Block number (hex) -> unix seconds, one header fetch per distinct block
+export async function fetchBlockTimestamps(rpcUrl: string, blockNumbers: string[]): Promise<Map<string, number>> {
+  const unique = Array.from(new Set(blockNumbers));
+  const timestamps = new Map<string, number>();
+
+  for (let i = 0; i < unique.length; i += BLOCK_BATCH_SIZE) {
+    const chunk = unique.slice(i, i + BLOCK_BATCH_SIZE);
+    const blocks = await rpcBatch(
+      rpcUrl,
+      chunk.map(blockNumber => ({ method: 'eth_getBlockByNumber', params: [blockNumber, false] }))
+    );
+
+    chunk.forEach((blockNumber, j) => {
+      const block = blocks[j];
+      if (block) timestamps.set(blockNumber, parseInt(block.timestamp, 16));
+    });
+  }
+
+  return timestamps;
+}
+
+// Ronin wallets display addresses as `ronin:<hex>`; the RPC only takes `0x<hex>`
+export function normalizeEvmAddress(address: string): string {
+  return address.trim().replace(/^ronin:/i, '0x');
+}
+
+export function addressToTopic(address: string): string {
+  return '0x' + address.toLowerCase().replace(/^0x/, '').padStart(64, '0');
+}
+
+export function topicToAddress(topic: string | undefined): string {
+  return topic ? '0x' + topic.slice(-40).toLowerCase() : '';
+}
+
+export function hexToBigInt(value: string | undefined): bigint {
+  return value && value !== '0x' ? BigInt(value) : BigInt(0);
+}
+
+export function toHex(value: number): string {
+  return `0x${value.toString(16)}`;
+}
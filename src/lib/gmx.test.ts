@@ -0,0 +1,277 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { encodeAbiParameters, keccak256, parseAbiParameters, toBytes } from 'viem';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CACHE_DIR } from './cache';
+import { addressToTopic } from './evm';
+import { fetchGmxTransactions } from './gmx';
+import { RpcFixtureError, stubRpc } from './test-fetch';
+
+const EVENT_EMITTER = '0xc8ee91a54287db53897056e12d9819156d3822fb';
+const DATA_STORE = '0xfd70de6b91282d8017aa4e741e9ae325cab992d8';
+const API_URL = 'https://arbitrum-api.gmxinfra.io';
+const KEEPER = '0xe47b36382dc50b90bcf6176ddb159c4b9333a7ab';
+const ACCOUNT = '0x1234567890abcdef1234567890abcdef12345678';
+const ETH_MARKET = '0x70d95587d40a2caf56bd97485ab3eec10bee6336';
+const DOGE_MARKET = '0x6853ea96ff216fab11d2d930ce3c508556a4bdc4';
+const WETH = '0x82af49447d8a07e3bd95bd0d56f35241523fbab1';
+const USDC = '0xaf88d065e77c8cc2239327c5edb3a432268e5831';
+// DOGE is synthetic on GMX: an address without a contract behind it
+const DOGE = '0xc4da4c24fd591125c3f47b340b6f4f76111883d8';
+const LATEST_BLOCK = 1_000;
+const GENESIS_TIME = 1_735_689_600;
+
+const EVENT_LOG1_TOPIC = '0x137a44067c8961cd7e1d876f4754a5a3a75989b4552f1843fc69c3b372def160';
+
+const EVENT_LOG_PARAMS = parseAbiParameters([
+  'address msgSender, string eventName, EventLogData eventData',
+  'struct EventLogData { AddressItems addressItems; UintItems uintItems; IntItems intItems; BoolItems boolItems; Bytes32Items bytes32Items; BytesItems bytesItems; StringItems stringItems; }',
+  'struct AddressItems { AddressKeyValue[] items; AddressArrayKeyValue[] arrayItems; }',
+  'struct UintItems { UintKeyValue[] items; UintArrayKeyValue[] arrayItems; }',
+  'struct IntItems { IntKeyValue[] items; IntArrayKeyValue[] arrayItems; }',
+  'struct BoolItems { BoolKeyValue[] items; BoolArrayKeyValue[] arrayItems; }',
+  'struct Bytes32Items { Bytes32KeyValue[] items; Bytes32ArrayKeyValue[] arrayItems; }',
+  'struct BytesItems { BytesKeyValue[] items; BytesArrayKeyValue[] arrayItems; }',
+  'struct StringItems { StringKeyValue[] items; StringArrayKeyValue[] arrayItems; }',
+  'struct AddressKeyValue { string key; address value; }',
+  'struct AddressArrayKeyValue { string key; address[] value; }',
+  'struct UintKeyValue { string key; uint256 value; }',
+  'struct UintArrayKeyValue { string key; uint256[] value; }',
+  'struct IntKeyValue { string key; int256 value; }',
+  'struct IntArrayKeyValue { string key; int256[] value; }',
+  'struct BoolKeyValue { string key; bool value; }',
+  'struct BoolArrayKeyValue { string key; bool[] value; }',
+  'struct Bytes32KeyValue { string key; bytes32 value; }',
+  'struct Bytes32ArrayKeyValue { string key; bytes32[] value; }',
+  'struct BytesKeyValue { string key; bytes value; }',
+  'struct BytesArrayKeyValue { string key; bytes[] value; }',
+  'struct StringKeyValue { string key; string value; }',
+  'struct StringArrayKeyValue { string key; string[] value; }',
+]);
+
+const scaled = (value: number, decimals: number) => BigInt(Math.round(value * 1e6)) * BigInt(10) ** BigInt(decimals - 6);
+const bytes32 = (seed: number) => `0x${seed.toString(16).padStart(64, '0')}`;
+
+interface EventValues {
+  address?: Record<string, string>;
+  uint?: Record<string, bigint>;
+  int?: Record<string, bigint>;
+  bool?: Record<string, boolean>;
+  bytes32?: Record<string, string>;
+}
+
+// An EventLog1 as the EventEmitter logs it: name hash and `topic2` indexed,
+// the values in GMX's key/value EventLogData
+function eventLog1(eventName: string, topic2: string, values: EventValues, block: number, transactionHash: string) {
+  const group = (entries: Record<string, unknown> = {}) => ({
+    items: Object.entries(entries).map(([key, value]) => ({ key, value })),
+    arrayItems: [],
+  });
+  const eventData = {
+    addressItems: group(values.address),
+    uintItems: group(values.uint),
+    intItems: group(values.int),
+    boolItems: group(values.bool),
+    bytes32Items: group(values.bytes32),
+    bytesItems: group(),
+    stringItems: group(),
+  };
+
+  return {
+    address: EVENT_EMITTER,
+    topics: [EVENT_LOG1_TOPIC, keccak256(toBytes(eventName)), topic2],
+    data: encodeAbiParameters(EVENT_LOG_PARAMS, [KEEPER, eventName, eventData] as any),
+    blockNumber: `0x${block.toString(16)}`,
+    blockHash: bytes32(block),
+    transactionHash,
+    logIndex: '0x0',
+  };
+}
+
+interface PositionChange {
+  // Position size after the change, and the change itself, in index tokens
+  size: number;
+  delta: number;
+  price: number;
+  pnl?: number;
+  orderKey: string;
+  block: number;
+}
+
+// A PositionIncrease/PositionDecrease of a long in a market whose index token
+// has `decimals`
+function positionChange(
+  name: 'PositionIncrease' | 'PositionDecrease',
+  market: string,
+  decimals: number,
+  { size, delta, price, pnl, orderKey, block }: PositionChange
+) {
+  return eventLog1(name, addressToTopic(ACCOUNT), {
+    address: { account: ACCOUNT, market, collateralToken: USDC },
+    uint: {
+      sizeInTokens: scaled(size, decimals),
+      sizeDeltaInTokens: scaled(delta, decimals),
+      executionPrice: scaled(price, 30 - decimals),
+      'collateralTokenPrice.min': scaled(1, 24),
+      orderType: BigInt(2),
+    },
+    int: pnl === undefined ? {} : { basePnlUsd: scaled(pnl, 30) },
+    bool: { isLong: true },
+    bytes32: { orderKey, positionKey: bytes32(0xbeef) },
+  }, block, bytes32(block));
+}
+
+// Amounts in USDC collateral (6 decimals), priced at $1
+function feesCollected(orderKey: string, { position, borrowingUsd = 0, funding = 0 }: Record<string, number>) {
+  return eventLog1('PositionFeesCollected', orderKey, {
+    uint: {
+      positionFeeAmount: scaled(position, 6),
+      uiFeeAmount: BigInt(0),
+      'borrowing.borrowingFeeUsd': scaled(borrowingUsd, 30),
+      'funding.fundingFeeAmount': scaled(funding, 6),
+      'collateralTokenPrice.min': scaled(1, 24),
+    },
+    bytes32: { orderKey },
+  }, 0, bytes32(0));
+}
+
+const STORE_FIELDS = ['INDEX_TOKEN', 'LONG_TOKEN', 'SHORT_TOKEN'];
+const storeKey = (market: string, field: string) => keccak256(encodeAbiParameters(
+  [{ type: 'address' }, { type: 'bytes32' }],
+  [market as `0x${string}`, keccak256(encodeAbiParameters([{ type: 'string' }], [field]))]
+));
+
+interface ArbitrumFixture {
+  logs: ReturnType<typeof eventLog1>[];
+  // Transaction hash -> the logs of its receipt
+  receipts: Record<string, ReturnType<typeof eventLog1>[]>;
+  // Market -> [index, long, short] tokens, or undefined when its DataStore reads fail
+  store?: Record<string, [string, string, string]>;
+  api?: { markets: unknown[]; tokens: unknown[] };
+}
+
+function stubArbitrum(fixture: ArbitrumFixture) {
+  const storeAnswers = new Map<string, string>();
+  for (const [market, tokens] of Object.entries(fixture.store || {})) {
+    STORE_FIELDS.forEach((field, i) => {
+      // DataStore.getAddress(key)
+      storeAnswers.set(`0x21f8a721${storeKey(market, field).slice(2)}`, addressToTopic(tokens[i]));
+    });
+  }
+  const erc20: Record<string, string> = {
+    '0x95d89b41': encodeAbiParameters([{ type: 'string' }], ['WETH']),
+    '0x06fdde03': encodeAbiParameters([{ type: 'string' }], ['Wrapped Ether']),
+    '0x313ce567': encodeAbiParameters([{ type: 'uint8' }], [18]),
+  };
+  const requested: string[] = [];
+
+  stubRpc((method, params) => {
+    switch (method) {
+      case 'eth_blockNumber':
+        return `0x${LATEST_BLOCK.toString(16)}`;
+      case 'eth_getBlockByNumber':
+        return { timestamp: `0x${(GENESIS_TIME + parseInt(params[0], 16) * 2).toString(16)}` };
+      case 'eth_getLogs':
+        // Avalanche's emitter has nothing for this account
+        return params[0].address === EVENT_EMITTER ? fixture.logs : [];
+      case 'eth_getTransactionReceipt':
+        return { transactionHash: params[0], logs: fixture.receipts[params[0]] || [] };
+      case 'eth_call': {
+        const { to, data } = params[0];
+        if (to === DATA_STORE) {
+          if (!fixture.store) throw new RpcFixtureError(-32000, 'header not found');
+          return storeAnswers.get(data) ?? bytes32(0);
+        }
+        // Only WETH is a contract; the synthetic DOGE address has no code
+        return to === WETH ? erc20[data] : '0x';
+      }
+    }
+    throw new RpcFixtureError(-32601, `${method} not found`);
+  }, url => {
+    requested.push(url);
+    if (url === `${API_URL}/markets`) return { markets: fixture.api?.markets || [] };
+    if (url === `${API_URL}/tokens`) return { tokens: fixture.api?.tokens || [] };
+    throw new Error(`Unexpected request to ${url}`);
+  });
+
+  // REST requests, in order
+  return requested;
+}
+
+const range = { from: GENESIS_TIME };
+
+describe('fetchGmxTransactions', () => {
+  beforeEach(async () => {
+    await fs.rm(path.join(CACHE_DIR, 'gmx-markets-arbitrum.json'), { force: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('decodes position changes and takes each order\'s fees from its own PositionFeesCollected', async () => {
+    const open = positionChange('PositionIncrease', ETH_MARKET, 18, {
+      size: 1, delta: 1, price: 3000, orderKey: bytes32(1), block: 100,
+    });
+    const close = positionChange('PositionDecrease', ETH_MARKET, 18, {
+      size: 0, delta: 1, price: 3300, pnl: 300, orderKey: bytes32(2), block: 200,
+    });
+    stubArbitrum({
+      logs: [open, close],
+      receipts: {
+        [open.transactionHash]: [
+          feesCollected(bytes32(1), { position: 3 }),
+          // Another account's order executed by the same keeper transaction
+          feesCollected(bytes32(3), { position: 500 }),
+          open,
+        ],
+        [close.transactionHash]: [feesCollected(bytes32(2), { position: 3.3, borrowingUsd: 0.5, funding: 1 }), close],
+      },
+      store: { [ETH_MARKET]: [WETH, WETH, USDC] },
+    });
+
+    const rows = await fetchGmxTransactions(ACCOUNT, range);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      kind: 'close',
+      side: 'LONG',
+      asset: 'WETH',
+      quantity: 1,
+      entry_price: 3000,
+      exit_price: 3300,
+      pnl: 300,
+      chain: 'arbitrum',
+    });
+    expect(rows[0].fees).toBeCloseTo(6.8);
+    expect(rows[0].funding).toBeCloseTo(1);
+  });
+
+  it('falls back to GMX\'s market and token lists when the DataStore reads fail', async () => {
+    const open = positionChange('PositionIncrease', DOGE_MARKET, 8, {
+      size: 1000, delta: 1000, price: 0.25, orderKey: bytes32(4), block: 300,
+    });
+    const requested = stubArbitrum({
+      logs: [open],
+      receipts: { [open.transactionHash]: [feesCollected(bytes32(4), { position: 0.25 }), open] },
+      api: {
+        markets: [{ marketToken: DOGE_MARKET, indexToken: DOGE, longToken: WETH, shortToken: USDC, isListed: true }],
+        tokens: [{ symbol: 'DOGE', address: DOGE, decimals: 8, synthetic: true }],
+      },
+    });
+
+    const rows = await fetchGmxTransactions(ACCOUNT, range);
+
+    expect(requested).toEqual([`${API_URL}/markets`, `${API_URL}/tokens`]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      kind: 'position',
+      side: 'LONG',
+      asset: 'DOGE',
+      quantity: 1000,
+      entry_price: 0.25,
+      fees: 0.25,
+    });
+  });
+});
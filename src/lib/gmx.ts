@@ -0,0 +1,425 @@
+// GMX v2 perp history from the EventEmitter contract on Arbitrum and Avalanche.
+//
+// Every position change is an EventLog1 with the event name hash and the
+// account as its indexed topics; the payload is GMX's generic key/value
+// EventLogData. Fees, borrowing and funding for an order are reported in a
+// separate PositionFeesCollected log in the same (keeper) transaction,
+// matched by order key. USD values use 30 decimals; token prices are scaled
+// by 10^(30 - token decimals).
+//
+// Funding a position receives isn't paid out with the order: it's credited
+// as claimable amounts of the market's long and short tokens (the same
+// amounts ClaimableFundingUpdated reports), which the fees log carries too.
+// Claiming them later only moves what was already earned to the wallet.
+
+import { decodeAbiParameters, encodeAbiParameters, keccak256, parseAbiParameters, toBytes } from 'viem';
+import { createDiskCache } from './cache';
+import { getRpcUrl } from './chains';
+import { addressToTopic, fetchBlockTimestamps, resolveBlockRange, topicToAddress, type EvmLog } from './evm';
+import { scanLogs } from './evm-scanner';
+import { resolveEvmTokens } from './evm-tokens';
+import { buildPositions, type PerpFill } from './positions';
+import { rpcBatch } from './rpc';
+import type { DateRange, PerpTransaction, TokenMetadata } from './types';
+import { warn } from './warnings';
+
+// keccak256 of the full EventLog1(address,string,string,bytes32,EventLogData) signature
+const EVENT_LOG1_TOPIC = '0x137a44067c8961cd7e1d876f4754a5a3a75989b4552f1843fc69c3b372def160';
+
+const POSITION_INCREASE = keccak256(toBytes('PositionIncrease'));
+const POSITION_DECREASE = keccak256(toBytes('PositionDecrease'));
+const POSITION_FEES_COLLECTED = keccak256(toBytes('PositionFeesCollected'));
+
+// Order.OrderType.Liquidation
+const LIQUIDATION_ORDER_TYPE = 7;
+const RECEIPT_BATCH_SIZE = 25;
+
+interface GmxDeployment {
+  eventEmitter: string;
+  dataStore: string;
+  // GMX's own market and token lists; the fallback for markets DataStore
+  // doesn't answer for, and the only source for synthetic index tokens
+  // (DOGE, XRP, ...), which have no contract
+  apiUrl: string;
+}
+
+const GMX_DEPLOYMENTS: Record<string, GmxDeployment> = {
+  arbitrum: {
+    eventEmitter: '0xc8ee91a54287db53897056e12d9819156d3822fb',
+    dataStore: '0xfd70de6b91282d8017aa4e741e9ae325cab992d8',
+    apiUrl: 'https://arbitrum-api.gmxinfra.io',
+  },
+  avalanche: {
+    eventEmitter: '0xdb17b211c34240b014ab6d61d4a31fa0c0e20c26',
+    dataStore: '0x2f0b22339414aded7d5f06f9d604c7ff5b2fe3f6',
+    apiUrl: 'https://avalanche-api.gmxinfra.io',
+  },
+};
+
+// EventLogData: for each value type, a list of (key, value) and (key, value[])
+const EVENT_LOG_PARAMS = parseAbiParameters([
+  'address msgSender, string eventName, EventLogData eventData',
+  'struct EventLogData { AddressItems addressItems; UintItems uintItems; IntItems intItems; BoolItems boolItems; Bytes32Items bytes32Items; BytesItems bytesItems; StringItems stringItems; }',
+  'struct AddressItems { AddressKeyValue[] items; AddressArrayKeyValue[] arrayItems; }',
+  'struct UintItems { UintKeyValue[] items; UintArrayKeyValue[] arrayItems; }',
+  'struct IntItems { IntKeyValue[] items; IntArrayKeyValue[] arrayItems; }',
+  'struct BoolItems { BoolKeyValue[] items; BoolArrayKeyValue[] arrayItems; }',
+  'struct Bytes32Items { Bytes32KeyValue[] items; Bytes32ArrayKeyValue[] arrayItems; }',
+  'struct BytesItems { BytesKeyValue[] items; BytesArrayKeyValue[] arrayItems; }',
+  'struct StringItems { StringKeyValue[] items; StringArrayKeyValue[] arrayItems; }',
+  'struct AddressKeyValue { string key; address value; }',
+  'struct AddressArrayKeyValue { string key; address[] value; }',
+  'struct UintKeyValue { string key; uint256 value; }',
+  'struct UintArrayKeyValue { string key; uint256[] value; }',
+  'struct IntKeyValue { string key; int256 value; }',
+  'struct IntArrayKeyValue { string key; int256[] value; }',
+  'struct BoolKeyValue { string key; bool value; }',
+  'struct BoolArrayKeyValue { string key; bool[] value; }',
+  'struct Bytes32KeyValue { string key; bytes32 value; }',
+  'struct Bytes32ArrayKeyValue { string key; bytes32[] value; }',
+  'struct BytesKeyValue { string key; bytes value; }',
+  'struct BytesArrayKeyValue { string key; bytes[] value; }',
+  'struct StringKeyValue { string key; string value; }',
+  'struct StringArrayKeyValue { string key; string[] value; }',
+]);
+
+// MarketStoreUtils keys: keccak256(abi.encode(market, keccak256(abi.encode("INDEX_TOKEN"))))
+const INDEX_TOKEN_KEY = keccak256(encodeAbiParameters([{ type: 'string' }], ['INDEX_TOKEN']));
+const LONG_TOKEN_KEY = keccak256(encodeAbiParameters([{ type: 'string' }], ['LONG_TOKEN']));
+const SHORT_TOKEN_KEY = keccak256(encodeAbiParameters([{ type: 'string' }], ['SHORT_TOKEN']));
+// DataStore.getAddress(bytes32)
+const GET_ADDRESS_SELECTOR = '0x21f8a721';
+
+const USD_DECIMALS = 30;
+
+interface GmxEvent {
+  name: string;
+  log: EvmLog;
+  values: Record<string, any>;
+}
+
+interface MarketTokens {
+  indexToken: string;
+  // Pool tokens; received funding is credited in these
+  longToken: string;
+  shortToken: string;
+}
+
+interface GmxMarket extends MarketTokens {
+  symbol: string;
+  decimals: number;
+}
+
+export async function fetchGmxTransactions(wallet: string, options: DateRange = {}): Promise<PerpTransaction[]> {
+  const transactions: PerpTransaction[] = [];
+
+  for (const chain of Object.keys(GMX_DEPLOYMENTS)) {
+    const rpcUrl = getRpcUrl(chain);
+    if (!rpcUrl) continue;
+    // One chain's RPC failing shouldn't cost the other chain's history
+    try {
+      transactions.push(...(await fetchGmxChain(wallet.toLowerCase(), chain, rpcUrl, options)));
+    } catch (err) {
+      warn(`GMX history on ${chain} could not be read:`, err);
+    }
+  }
+
+  return transactions.sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
+async function fetchGmxChain(
+  account: string,
+  chain: string,
+  rpcUrl: string,
+  options: DateRange
+): Promise<PerpTransaction[]> {
+  const deployment = GMX_DEPLOYMENTS[chain];
+  const { fromBlock, toBlock } = await resolveBlockRange(rpcUrl, options);
+  if (fromBlock > toBlock) return [];
+
+  const logs = await scanLogs(rpcUrl, {
+    address: deployment.eventEmitter,
+    topics: [EVENT_LOG1_TOPIC, [POSITION_INCREASE, POSITION_DECREASE], addressToTopic(account)],
+  }, fromBlock, toBlock);
+  if (logs.length === 0) return [];
+
+  const changes = logs.map(decodeEventLog).filter((event): event is GmxEvent => event !== null);
+  const fees = await fetchOrderFees(rpcUrl, deployment, changes.map(event => event.log.transactionHash));
+  const timestamps = await fetchBlockTimestamps(rpcUrl, changes.map(event => event.log.blockNumber));
+  const markets = await resolveMarkets(chain, rpcUrl, deployment, changes.map(event => event.values.market));
+
+  const fills: PerpFill[] = [];
+  for (const event of changes) {
+    const market = markets.get(event.values.market.toLowerCase());
+    if (!market) {
+      warn(`Skipping GMX ${event.name} in unknown market ${event.values.market}`);
+      continue;
+    }
+
+    const blockTime = timestamps.get(event.log.blockNumber);
+    const timestamp = blockTime ? new Date(blockTime * 1000).toISOString() : new Date().toISOString();
+    fills.push(toPerpFill(event, market, fees.get(event.values.orderKey), timestamp));
+  }
+
+  return buildPositions(fills, [], { exchange: 'GMX', chain });
+}
+
+function toPerpFill(
+  { name, log, values }: GmxEvent,
+  market: GmxMarket,
+  fees: Record<string, any> | undefined,
+  timestamp: string
+): PerpFill {
+  const isLong: boolean = values.isLong;
+  const increase = name === 'PositionIncrease';
+  const quantity = Number(values.sizeDeltaInTokens) / 10 ** market.decimals;
+  const price = Number(values.executionPrice) / 10 ** (USD_DECIMALS - market.decimals);
+  // Position size in tokens after this change
+  const after = Number(values.sizeInTokens) / 10 ** market.decimals;
+
+  // Longs grow on increase and shrink on decrease; shorts the other way round
+  const size = increase === isLong ? quantity : -quantity;
+  const before = increase ? after - quantity : after + quantity;
+
+  let entryPrice: number | undefined;
+  if (!increase && quantity > 0 && values.basePnlUsd !== undefined) {
+    const pnl = Number(values.basePnlUsd) / 10 ** USD_DECIMALS;
+    entryPrice = isLong ? price - pnl / quantity : price + pnl / quantity;
+  }
+
+  // Fee amounts are in collateral token units; the collateral price converts them to USD
+  let fee = 0;
+  let funding = 0;
+  if (fees) {
+    const collateralPrice: bigint = fees['collateralTokenPrice.min'] ?? BigInt(0);
+    const toUsd = (amount: bigint | undefined) => usd((amount ?? BigInt(0)) * collateralPrice);
+
+    // Borrowing is a cost of holding the position, like the opening/closing fee
+    fee = toUsd(fees.positionFeeAmount) + toUsd(fees.uiFeeAmount) + usd(fees['borrowing.borrowingFeeUsd'] ?? BigInt(0));
+    funding = toUsd(fees['funding.fundingFeeAmount']) - receivedFunding(values, market, fees);
+  }
+
+  return {
+    timestamp,
+    asset: market.symbol,
+    size,
+    price,
+    fee,
+    funding,
+    hash: log.transactionHash,
+    liquidation: Number(values.orderType) === LIQUIDATION_ORDER_TYPE,
+    startPosition: isLong ? before : -before,
+    entryPrice,
+    positionKey: values.positionKey,
+  };
+}
+
+// USD value of the funding credited to the position by this order. Token
+// prices come from the order itself: the collateral price, or the index
+// price when the pool token is also the index token.
+function receivedFunding(values: Record<string, any>, market: GmxMarket, fees: Record<string, any>): number {
+  const prices = new Map<string, bigint>();
+  if (values['indexTokenPrice.min'] !== undefined) prices.set(market.indexToken, values['indexTokenPrice.min']);
+  if (values.collateralToken && values['collateralTokenPrice.min'] !== undefined) {
+    prices.set(values.collateralToken.toLowerCase(), values['collateralTokenPrice.min']);
+  }
+
+  let received = 0;
+  const credits: [string, bigint | undefined][] = [
+    [market.longToken, fees['funding.claimableLongTokenAmount']],
+    [market.shortToken, fees['funding.claimableShortTokenAmount']],
+  ];
+  for (const [token, amount] of credits) {
+    if (!amount) continue;
+    const price = prices.get(token);
+    if (price === undefined) {
+      warn(`No price for GMX funding received in ${token} (order ${fees.orderKey}); left out`);
+      continue;
+    }
+    received += usd(amount * price);
+  }
+
+  return received;
+}
+
+// PositionFeesCollected values keyed by order key, read from the receipts of
+// the transactions that executed the wallet's orders
+async function fetchOrderFees(
+  rpcUrl: string,
+  deployment: GmxDeployment,
+  hashes: string[]
+): Promise<Map<string, Record<string, any>>> {
+  const unique = Array.from(new Set(hashes));
+  const fees = new Map<string, Record<string, any>>();
+
+  for (let i = 0; i < unique.length; i += RECEIPT_BATCH_SIZE) {
+    const chunk = unique.slice(i, i + RECEIPT_BATCH_SIZE);
+    const receipts = await rpcBatch(
+      rpcUrl,
+      chunk.map(hash => ({ method: 'eth_getTransactionReceipt', params: [hash] }))
+    );
+
+    receipts.forEach((receipt, j) => {
+      if (!receipt) {
+        warn(`Failed to fetch GMX receipt ${chunk[j]}; fees for it are missing`);
+        return;
+      }
+
+      for (const log of receipt.logs || []) {
+        if (log.address?.toLowerCase() !== deployment.eventEmitter) continue;
+        if (log.topics[0] !== EVENT_LOG1_TOPIC || log.topics[1] !== POSITION_FEES_COLLECTED) continue;
+
+        const event = decodeEventLog(log);
+        if (event) fees.set(event.values.orderKey, event.values);
+      }
+    });
+  }
+
+  return fees;
+}
+
+function decodeEventLog(log: EvmLog): GmxEvent | null {
+  try {
+    const [, eventName, eventData] = decodeAbiParameters(EVENT_LOG_PARAMS, log.data as `0x${string}`);
+    const values: Record<string, any> = {};
+
+    for (const group of Object.values(eventData)) {
+      for (const { key, value } of group.items) values[key] = value;
+      for (const { key, value } of group.arrayItems) values[key] = value;
+    }
+
+    return { name: eventName, log, values };
+  } catch (err) {
+    warn(`Failed to decode GMX event in ${log.transactionHash}:`, err);
+    return null;
+  }
+}
+
+// Market token -> its tokens and the index token's symbol and decimals,
+// cached per chain
+async function resolveMarkets(
+  chain: string,
+  rpcUrl: string,
+  deployment: GmxDeployment,
+  marketAddresses: string[]
+): Promise<Map<string, GmxMarket>> {
+  const cache = createDiskCache<GmxMarket>(`gmx-markets-${chain}`);
+  const resolved = new Map<string, GmxMarket>();
+  const missing: string[] = [];
+
+  for (const market of new Set(marketAddresses.map(address => address.toLowerCase()))) {
+    const cached = await cache.get(market);
+    // Entries cached before pool tokens were recorded are read again
+    if (cached?.longToken) {
+      resolved.set(market, cached);
+    } else {
+      missing.push(market);
+    }
+  }
+  if (missing.length === 0) return resolved;
+
+  const fields = [INDEX_TOKEN_KEY, LONG_TOKEN_KEY, SHORT_TOKEN_KEY];
+  const results = await rpcBatch<string>(
+    rpcUrl,
+    missing.flatMap(market => fields.map(field => ({
+      method: 'eth_call',
+      params: [{ to: deployment.dataStore, data: GET_ADDRESS_SELECTOR + marketKey(market, field).slice(2) }, 'latest'],
+    })))
+  );
+  // An unknown market reads back as the zero address
+  const addresses = results.map(result => {
+    const address = result && result.length >= 66 ? topicToAddress(result) : '';
+    return /^0x0{40}$/.test(address) ? '' : address;
+  });
+  const read = missing.map((_, i) => ({
+    indexToken: addresses[i * fields.length],
+    longToken: addresses[i * fields.length + 1],
+    shortToken: addresses[i * fields.length + 2],
+  }));
+
+  // Markets whose DataStore read failed come from GMX's own list
+  const listedMarkets = read.some(entry => !entry.indexToken)
+    ? await fetchGmxMarketList(deployment.apiUrl)
+    : new Map<string, MarketTokens>();
+  const marketTokens = missing.map((market, i) => (read[i].indexToken ? read[i] : listedMarkets.get(market)));
+  const indexTokens = marketTokens.map(entry => entry?.indexToken || '');
+
+  const tokens = await resolveEvmTokens(chain, rpcUrl, indexTokens.filter(Boolean));
+  const missingTokens = indexTokens.filter(token => token && !tokens.has(token));
+  const listed = missingTokens.length > 0 ? await fetchGmxTokenList(deployment.apiUrl) : new Map();
+
+  for (const [i, market] of missing.entries()) {
+    const found = marketTokens[i];
+    const metadata = found && (tokens.get(found.indexToken) || listed.get(found.indexToken));
+    if (!metadata) continue;
+
+    const entry = {
+      indexToken: found.indexToken,
+      longToken: found.longToken,
+      shortToken: found.shortToken,
+      symbol: metadata.symbol,
+      decimals: metadata.decimals,
+    };
+    resolved.set(market, entry);
+    await cache.set(market, entry);
+  }
+
+  await cache.flush();
+  return resolved;
+}
+
+function marketKey(market: string, field: string): string {
+  return keccak256(encodeAbiParameters(
+    [{ type: 'address' }, { type: 'bytes32' }],
+    [market as `0x${string}`, field as `0x${string}`]
+  ));
+}
+
+// Market token -> its index and pool tokens, as GMX's API lists them
+async function fetchGmxMarketList(apiUrl: string): Promise<Map<string, MarketTokens>> {
+  const markets = new Map<string, MarketTokens>();
+
+  try {
+    const response = await fetch(`${apiUrl}/markets`);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    const data = await response.json();
+
+    for (const market of data.markets || []) {
+      markets.set(market.marketToken.toLowerCase(), {
+        indexToken: market.indexToken.toLowerCase(),
+        longToken: market.longToken.toLowerCase(),
+        shortToken: market.shortToken.toLowerCase(),
+      });
+    }
+  } catch (err) {
+    warn('Failed to fetch the GMX market list:', err);
+  }
+
+  return markets;
+}
+
+async function fetchGmxTokenList(apiUrl: string): Promise<Map<string, TokenMetadata>> {
+  const tokens = new Map<string, TokenMetadata>();
+
+  try {
+    const response = await fetch(`${apiUrl}/tokens`);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    const data = await response.json();
+
+    for (const token of data.tokens || []) {
+      tokens.set(token.address.toLowerCase(), { symbol: token.symbol, name: token.symbol, decimals: token.decimals });
+    }
+  } catch (err) {
+    warn('Failed to fetch the GMX token list:', err);
+  }
+
+  return tokens;
+}
+
+// Value scaled by 1e30 -> plain number, without losing the fraction
+function usd(value: bigint): number {
+  const scale = BigInt(10) ** BigInt(18);
+  return Number(value / scale) / 10 ** (USD_DECIMALS - 18);
+}
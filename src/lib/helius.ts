@@ -1,109 +1,170 @@
-// Helius SDK integration for fetching wallet transactions
+// Helius enhanced-transactions integration for Solana wallets
+
+import { buildSolanaRows, NATIVE_SOL_MINT, SOL_DECIMALS, type BalanceChange } from './solana';
+import { pairSwapLegs } from './solana-swaps';
+import { resolveSolanaAssets } from './solana-tokens';
+import type { DateRange, SpotTransaction } from './types';
+import { warn } from './warnings';
 
 export interface HeliusConfig {
   apiKey: string;
+  baseUrl: string;
+  // JSON-RPC endpoint used for token metadata lookups
+  rpcUrl: string;
 }
 
-export interface Transaction {
-  timestamp: string;
-  asset: string;
-  side: string;
-  quantity: number;
-  price: number;
-  total: number;
-  fees: number;
-  hash: string;
+export interface HeliusFetchOptions extends DateRange {
+  // Stop once this signature is reached (exclusive)
+  until?: string;
 }
 
-// Note: Full Helius SDK integration requires @helius/sdk package
-// For now, this is a placeholder for the actual SDK integration
+// Maximum page size accepted by /v0/addresses/{address}/transactions
+const HELIUS_PAGE_SIZE = 100;
 
 export async function fetchHeliusTransactions(
   wallet: string,
-  config: HeliusConfig
-): Promise<Transaction[]> {
+  config: HeliusConfig,
+  options: HeliusFetchOptions = {}
+): Promise<SpotTransaction[]> {
   const apiKey = config.apiKey || process.env.HELIUS_API_KEY;
-  
+
   if (!apiKey) {
     throw new Error('Helius API key required');
   }
 
-  try {
-    // Fetch balance and transactions from Helius
-    const response = await fetch(
-      `https://api.helius.xyz/v0/addresses/${wallet}/transactions?api-key=${apiKey}&type=ANY&limit=100`
-    );
+  const transactions: SpotTransaction[] = [];
+  let before: string | undefined;
+
+  // Pages come back newest-first; follow the `before` cursor until the
+  // history runs out or we cross the start of the requested range
+  while (true) {
+    const params = new URLSearchParams({ 'api-key': apiKey, limit: String(HELIUS_PAGE_SIZE) });
+    if (before) params.set('before', before);
+    if (options.until) params.set('until', options.until);
+
+    const response = await fetch(`${config.baseUrl}/v0/addresses/${wallet}/transactions?${params}`);
 
     if (!response.ok) {
-      throw new Error(`Helius API error: ${response.statusText}`);
+      throw new Error(`Helius API error: ${response.status} ${response.statusText}`);
     }
 
-    const data = await response.json();
-    
-    // Transform Helius data to our Transaction format
-    return transformHeliusData(data);
-  } catch (error) {
-    console.error('Helius fetch error:', error);
-    throw error;
+    const page = await response.json();
+    if (!Array.isArray(page) || page.length === 0) break;
+
+    for (const tx of page) {
+      if (options.from !== undefined && tx.timestamp < options.from) {
+        return finalize(transactions, config);
+      }
+      if (options.to !== undefined && tx.timestamp > options.to) continue;
+
+      try {
+        transactions.push(...transformHeliusTransaction(tx, wallet));
+      } catch (err) {
+        warn(`Failed to parse Helius tx ${tx.signature}:`, err);
+      }
+    }
+
+    if (page.length < HELIUS_PAGE_SIZE) break;
+    before = page[page.length - 1].signature;
   }
+
+  return finalize(transactions, config);
 }
 
-function transformHeliusData(data: any[]): Transaction[] {
-  if (!Array.isArray(data)) {
-    return [];
-  }
+async function finalize(transactions: SpotTransaction[], config: HeliusConfig): Promise<SpotTransaction[]> {
+  const resolved = await resolveSolanaAssets(transactions, config.rpcUrl);
+  return sortNewestFirst(resolved);
+}
 
-  return data.map((tx: any) => ({
+function transformHeliusTransaction(tx: any, wallet: string): SpotTransaction[] {
+  const paidFee = tx.feePayer === wallet ? tx.fee || 0 : 0;
+  // A failed transaction only charged its fee
+  const changes = tx.transactionError ? [] : getWalletChanges(tx, wallet, paidFee);
+  const type: string = tx.type || 'UNKNOWN';
+
+  // Helius has already classified the transaction, so trust its SWAP and
+  // NFT_SALE labels instead of looking for DEX program ids ourselves
+  const swap = changes.length > 0 && (type === 'SWAP' || type.startsWith('NFT_'))
+    ? pairSwapLegs(changes, NATIVE_SOL_MINT, formatSource(tx.source))
+    : null;
+
+  return buildSolanaRows(changes, swap, {
     timestamp: new Date(tx.timestamp * 1000).toISOString(),
-    asset: tx.tokenChanges?.[0]?.mint?.slice(0, 8) || 'UNKNOWN',
-    side: getSide(tx),
-    quantity: Math.abs(getQuantity(tx)),
-    price: getPrice(tx),
-    total: Math.abs(getTotal(tx)),
-    fees: tx.fee || 0,
-    hash: tx.signature || ''
-  })).filter(tx => tx.asset !== 'UNKNOWN');
+    signature: tx.signature || '',
+    fee: paidFee / 10 ** SOL_DECIMALS,
+    sideOf: change => getSide(type, change),
+  });
 }
 
-function getSide(tx: any): string {
-  const changes = tx.tokenChanges || [];
-  const nativeChange = tx.nativeChanges?.[0];
-  
-  if (nativeChange) {
-    return nativeChange.amount > 0 ? 'BUY' : 'SELL';
+// Net native and token balance changes for the wallet from Helius' accountData
+function getWalletChanges(tx: any, wallet: string, paidFee: number): BalanceChange[] {
+  const accountData: any[] = tx.accountData || [];
+  const changes: BalanceChange[] = [];
+
+  const nativeChange = accountData.find(account => account.account === wallet)?.nativeBalanceChange || 0;
+  // Add the fee back so it is reported in `fees` rather than as a SOL disposal
+  const lamports = BigInt(nativeChange) + BigInt(paidFee);
+  if (lamports !== BigInt(0)) {
+    changes.push({ mint: NATIVE_SOL_MINT, decimals: SOL_DECIMALS, amount: lamports, native: true });
   }
-  
-  const hasPositive = changes.some((c: any) => c.tokenAmount > 0);
-  const hasNegative = changes.some((c: any) => c.tokenAmount < 0);
-  
-  if (hasPositive && !hasNegative) return 'BUY';
-  if (!hasPositive && hasNegative) return 'SELL';
-  return 'TRANSFER';
+
+  const byMint = new Map<string, BalanceChange>();
+  for (const account of accountData) {
+    for (const change of account.tokenBalanceChanges || []) {
+      if (change.userAccount !== wallet) continue;
+
+      const raw = BigInt(change.rawTokenAmount?.tokenAmount || '0');
+      const existing = byMint.get(change.mint);
+      if (existing) {
+        existing.amount += raw;
+      } else {
+        byMint.set(change.mint, {
+          mint: change.mint,
+          decimals: change.rawTokenAmount?.decimals ?? 0,
+          amount: raw,
+        });
+      }
+    }
+  }
+
+  for (const change of byMint.values()) {
+    if (change.amount !== BigInt(0)) changes.push(change);
+  }
+
+  return changes;
 }
 
-function getQuantity(tx: any): number {
-  const changes = tx.tokenChanges || [];
-  return changes.reduce((sum: number, c: any) => sum + (c.tokenAmount || 0), 0);
+function getSide(type: string, change: BalanceChange): string {
+  const incoming = change.amount > BigInt(0);
+
+  if (type === 'TRANSFER') return incoming ? 'TRANSFER_IN' : 'TRANSFER_OUT';
+  // STAKE_SOL, UNSTAKE_SOL, STAKE_TOKEN, ...: funds leaving are being staked
+  if (type.startsWith('STAKE') || type.startsWith('UNSTAKE')) return incoming ? 'UNSTAKE' : 'STAKE';
+  return incoming ? 'BUY' : 'SELL';
 }
 
-function getPrice(tx: any): number {
-  const nativeChanges = tx.nativeChanges || [];
-  if (nativeChanges.length === 0) return 0;
-  
-  const nativeTotal = nativeChanges.reduce((sum: number, c: any) => sum + Math.abs(c.amount || 0), 0) / 1e9;
-  const tokenTotal = getQuantity(tx);
-  
-  return tokenTotal > 0 ? nativeTotal / tokenTotal : 0;
+// MAGIC_EDEN -> Magic Eden, JUPITER -> Jupiter
+function formatSource(source: string | undefined): string {
+  if (!source || source === 'UNKNOWN') return 'Unknown';
+  return source
+    .toLowerCase()
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
 }
 
-function getTotal(tx: any): number {
-  const nativeChanges = tx.nativeChanges || [];
-  return nativeChanges.reduce((sum: number, c: any) => sum + Math.abs(c.amount || 0), 0) / 1e9;
+function sortNewestFirst(transactions: SpotTransaction[]): SpotTransaction[] {
+  return transactions.sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
 }
 
 // Export configuration helper
 export function createHeliusConfig(apiKey?: string): HeliusConfig {
+  const key = apiKey || process.env.HELIUS_API_KEY || '';
   return {
-    apiKey: apiKey || process.env.HELIUS_API_KEY || ''
+    apiKey: key,
+    baseUrl: process.env.HELIUS_API_URL || 'https://api.helius.xyz',
+    rpcUrl: process.env.HELIUS_RPC_URL || `https://mainnet.helius-rpc.com/?api-key=${key}`,
   };
 }
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchHyperliquidTransactions, type HyperliquidFill, type HyperliquidInfo } from './hyperliquid';
+
+const USER = '0x5e9ee1089755c3435139848e47e6635505d5a13a';
+const OTHER = '0x010461c14e146ac35fe42271bdc1134ee31c703a';
+const STATE_TIME = Date.parse('2025-03-02T00:00:00Z');
+
+// Shapes as served by POST https://api.hyperliquid.xyz/info
+const fill = (
+  tid: number,
+  time: string,
+  dir: string,
+  side: 'B' | 'A',
+  sz: string,
+  px: string,
+  startPosition: string,
+  closedPnl = '0'
+): HyperliquidFill => ({
+  coin: 'ETH',
+  px,
+  sz,
+  side,
+  time: Date.parse(time),
+  startPosition,
+  dir,
+  closedPnl,
+  hash: `0x${tid.toString(16).padStart(64, '0')}`,
+  oid: tid * 10,
+  tid,
+  fee: '0.5',
+  feeToken: 'USDC',
+});
+
+const assetPosition = (coin: string, szi: string, entryPx: string, leverage: number) => ({
+  type: 'oneWay',
+  position: { coin, szi, entryPx, leverage: { type: 'cross', value: leverage }, positionValue: '0', unrealizedPnl: '0' },
+});
+
+interface Recorded {
+  fills?: HyperliquidFill[];
+  funding?: any[];
+  ledger?: any[];
+  assetPositions?: any[];
+}
+
+// Serves the time-ranged requests oldest first, inclusive of both bounds and
+// `pageSize` entries at a time, the way /info does
+function recordedInfo(recorded: Recorded, pageSize = 2000): HyperliquidInfo {
+  const lists: Record<string, { time: number }[]> = {
+    userFillsByTime: recorded.fills || [],
+    userFunding: recorded.funding || [],
+    userNonFundingLedgerUpdates: recorded.ledger || [],
+  };
+
+  return vi.fn(async (body: Record<string, any>) => {
+    if (body.type === 'clearinghouseState') return { assetPositions: recorded.assetPositions || [], time: STATE_TIME };
+
+    return lists[body.type]
+      .filter(item => item.time >= body.startTime && item.time <= body.endTime)
+      .sort((a, b) => a.time - b.time)
+      .slice(0, pageSize);
+  });
+}
+
+describe('fetchHyperliquidTransactions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('pages past a page boundary that splits one millisecond', async () => {
+    const info = recordedInfo({
+      fills: [
+        fill(1, '2025-03-01T10:00:00.000Z', 'Open Long', 'B', '1', '100', '0'),
+        // Two fills of one order in the same millisecond, split across pages
+        fill(2, '2025-03-01T11:00:00.000Z', 'Open Long', 'B', '1', '110', '1'),
+        fill(3, '2025-03-01T11:00:00.000Z', 'Open Long', 'B', '0.5', '110', '2'),
+        fill(4, '2025-03-01T12:00:00.000Z', 'Close Long', 'A', '2.5', '120', '2.5', '35'),
+      ],
+      funding: [{
+        time: Date.parse('2025-03-01T11:30:00.000Z'),
+        hash: `0x${'0'.repeat(64)}`,
+        delta: { type: 'funding', coin: 'ETH', usdc: '-0.75', szi: '2.5', fundingRate: '0.0000125' },
+      }],
+    }, 2);
+
+    const rows = await fetchHyperliquidTransactions(USER, info);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      kind: 'close',
+      side: 'LONG',
+      quantity: 2.5,
+      entry_price: 106,
+      exit_price: 120,
+      pnl: 35,
+      fees: 2,
+      funding: 0.75,
+    });
+  });
+
+  it('takes the entry of a position opened before the history from closedPnl', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const info = recordedInfo({
+      fills: [fill(1, '2025-03-01T12:00:00.000Z', 'Close Long', 'A', '1', '120', '2', '20')],
+      assetPositions: [
+        assetPosition('ETH', '1', '100', 10),
+        // No fills left to replay this one; the snapshot stands in
+        assetPosition('BTC', '-0.5', '60000', 5),
+      ],
+    });
+
+    const rows = await fetchHyperliquidTransactions(USER, info);
+
+    expect(rows.find(row => row.kind === 'close')).toMatchObject({
+      asset: 'ETH',
+      quantity: 1,
+      entry_price: 100,
+      pnl: 20,
+      leverage: 10,
+    });
+    expect(rows.filter(row => row.kind === 'position')).toEqual([
+      expect.objectContaining({
+        asset: 'BTC',
+        side: 'SHORT',
+        position_size: -0.5,
+        entry_price: 60000,
+        leverage: 5,
+        timestamp: new Date(STATE_TIME).toISOString(),
+      }),
+      expect.objectContaining({ asset: 'ETH', position_size: 1, entry_price: 100, leverage: 10 }),
+    ]);
+  });
+
+  it('reports USDC moving into and out of the perp account as transfers', async () => {
+    const update = (time: string, delta: Record<string, unknown>) => ({ time: Date.parse(time), hash: `0x${time}`, delta });
+    const info = recordedInfo({
+      ledger: [
+        update('2025-03-01T09:00:00.000Z', { type: 'deposit', usdc: '1000' }),
+        update('2025-03-01T10:00:00.000Z', { type: 'internalTransfer', usdc: '50', user: USER, destination: OTHER, fee: '1' }),
+        update('2025-03-01T11:00:00.000Z', { type: 'withdraw', usdc: '400', nonce: 1, fee: '1' }),
+        // Spot-side movements aren't perp collateral
+        update('2025-03-01T12:00:00.000Z', { type: 'spotTransfer', token: 'PURR', amount: '10', usdcValue: '2' }),
+      ],
+    });
+
+    const rows = await fetchHyperliquidTransactions(USER, info);
+
+    expect(rows.map(({ side, quantity, fees }) => [side, quantity, fees])).toEqual([
+      ['WITHDRAWAL', 400, 1],
+      ['WITHDRAWAL', 50, 1],
+      ['DEPOSIT', 1000, 0],
+    ]);
+    expect(rows.every(row => row.kind === 'transfer' && row.asset === 'USDC')).toBe(true);
+  });
+});
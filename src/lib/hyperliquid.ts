@@ -0,0 +1,255 @@
+// Hyperliquid perp history from the public /info endpoint: fills, funding
+// payments, USDC deposits/withdrawals and the current open positions.
+//
+// The time-ranged info requests return at most a fixed number of entries per
+// call, oldest first, so each is paged by moving startTime past the last
+// entry returned. Hyperliquid only serves the 10,000 most recent fills.
+
+import { buildPositions, type FundingPayment, type PerpFill } from './positions';
+import type { DateRange, PerpTransaction } from './types';
+
+const EXCHANGE = 'Hyperliquid';
+const CHAIN = 'hyperliquid';
+
+// Fill directions for perp trades; spot fills report 'Buy' / 'Sell'
+const PERP_DIRECTIONS = new Set(['Open Long', 'Close Long', 'Open Short', 'Close Short', 'Long > Short', 'Short > Long']);
+
+export interface HyperliquidFill {
+  coin: string;
+  px: string;
+  sz: string;
+  // 'B' (bid, buy) or 'A' (ask, sell)
+  side: 'B' | 'A';
+  time: number;
+  startPosition: string;
+  dir: string;
+  closedPnl: string;
+  hash: string;
+  oid: number;
+  tid: number;
+  fee: string;
+  feeToken: string;
+  liquidation?: unknown;
+}
+
+interface LedgerUpdate {
+  time: number;
+  hash: string;
+  delta: any;
+}
+
+// POST `${baseUrl}/info` with `body` -> parsed JSON
+export type HyperliquidInfo = (body: Record<string, unknown>) => Promise<any>;
+
+export function createHyperliquidInfo(baseUrl: string): HyperliquidInfo {
+  return async body => {
+    const response = await fetch(`${baseUrl}/info`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Hyperliquid ${body.type} failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  };
+}
+
+export async function fetchHyperliquidTransactions(
+  wallet: string,
+  info: HyperliquidInfo,
+  options: DateRange = {}
+): Promise<PerpTransaction[]> {
+  const user = wallet.toLowerCase();
+  const startTime = (options.from ?? 0) * 1000;
+  const endTime = options.to !== undefined ? options.to * 1000 + 999 : Date.now();
+
+  const fills = await paginateByTime<HyperliquidFill>(
+    info, { type: 'userFillsByTime', user }, startTime, endTime, fill => `${fill.tid}`
+  );
+  const funding = await paginateByTime<LedgerUpdate>(
+    info, { type: 'userFunding', user }, startTime, endTime, update => `${update.time}:${update.delta.coin}`
+  );
+  const ledger = await paginateByTime<LedgerUpdate>(
+    info, { type: 'userNonFundingLedgerUpdates', user }, startTime, endTime,
+    update => `${update.hash}:${update.time}:${update.delta.type}`
+  );
+  const state = await info({ type: 'clearinghouseState', user });
+
+  // Leverage is only reported for open positions; closed ones get 0
+  const leverage = new Map<string, number>();
+  for (const { position } of state?.assetPositions || []) {
+    leverage.set(position.coin, Number(position.leverage?.value) || 0);
+  }
+
+  const positions = buildPositions(
+    fills.filter(fill => PERP_DIRECTIONS.has(fill.dir)).map(toPerpFill),
+    funding.map(toFundingPayment),
+    { exchange: EXCHANGE, chain: CHAIN, leverage }
+  );
+
+  const transactions: PerpTransaction[] = [
+    ...positions,
+    ...ledger.flatMap(update => transferRows(update, user)),
+  ];
+
+  // Positions opened before the fills Hyperliquid still serves can't be
+  // replayed; fall back to the exchange's snapshot for those
+  if (options.to === undefined) {
+    const replayed = new Set(positions.filter(row => row.kind === 'position').map(row => row.asset));
+    for (const { position } of state?.assetPositions || []) {
+      if (!replayed.has(position.coin)) transactions.push(positionRow(position, state.time));
+    }
+  }
+
+  return transactions.sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
+// Repeats a time-ranged request from the newest time seen until a page adds
+// nothing new. Entries sharing the boundary millisecond are fetched twice and
+// dropped by `key`.
+async function paginateByTime<T extends { time: number }>(
+  info: HyperliquidInfo,
+  body: Record<string, unknown>,
+  startTime: number,
+  endTime: number,
+  key: (item: T) => string
+): Promise<T[]> {
+  const seen = new Set<string>();
+  const items: T[] = [];
+  let cursor = startTime;
+
+  while (cursor <= endTime) {
+    const page: T[] = await info({ ...body, startTime: cursor, endTime });
+    const fresh = (page || []).filter(item => !seen.has(key(item)));
+    if (fresh.length === 0) break;
+
+    for (const item of fresh) {
+      seen.add(key(item));
+      items.push(item);
+    }
+
+    const newest = Math.max(...fresh.map(item => item.time));
+    // A full page of one millisecond would otherwise repeat forever
+    cursor = newest > cursor ? newest : cursor + 1;
+  }
+
+  return items;
+}
+
+function toPerpFill(fill: HyperliquidFill): PerpFill {
+  const size = parseFloat(fill.sz);
+  const price = parseFloat(fill.px);
+  const startPosition = parseFloat(fill.startPosition);
+  const closedSize = Math.min(size, Math.abs(startPosition));
+
+  // closedPnl = (exit - entry) * size for longs, (entry - exit) * size for
+  // shorts, which gives the entry of the position being reduced
+  let entryPrice: number | undefined;
+  if (fill.dir.startsWith('Close') || fill.dir.includes('>')) {
+    const closedPnl = parseFloat(fill.closedPnl);
+    if (closedSize > 0) {
+      entryPrice = startPosition > 0 ? price - closedPnl / closedSize : price + closedPnl / closedSize;
+    }
+  }
+
+  return {
+    timestamp: new Date(fill.time).toISOString(),
+    asset: fill.coin,
+    size: fill.side === 'B' ? size : -size,
+    price,
+    fee: parseFloat(fill.fee),
+    hash: fill.hash,
+    liquidation: Boolean(fill.liquidation),
+    startPosition,
+    entryPrice,
+  };
+}
+
+// delta: { type: 'funding', coin, usdc, szi, fundingRate }; usdc is negative when paid
+function toFundingPayment({ time, hash, delta }: LedgerUpdate): FundingPayment {
+  return {
+    timestamp: new Date(time).toISOString(),
+    asset: delta.coin,
+    amount: -parseFloat(delta.usdc),
+    hash,
+    positionSize: parseFloat(delta.szi),
+  };
+}
+
+// USDC moving into or out of the perp account
+function transferRows({ time, hash, delta }: LedgerUpdate, user: string): PerpTransaction[] {
+  let amount: number;
+  let fee = 0;
+
+  switch (delta.type) {
+    case 'deposit':
+      amount = parseFloat(delta.usdc);
+      break;
+    case 'withdraw':
+      amount = -parseFloat(delta.usdc);
+      fee = parseFloat(delta.fee || '0');
+      break;
+    case 'accountClassTransfer':
+      amount = delta.toPerp ? parseFloat(delta.usdc) : -parseFloat(delta.usdc);
+      break;
+    case 'internalTransfer':
+    case 'subAccountTransfer':
+      amount = delta.user?.toLowerCase() === user ? -parseFloat(delta.usdc) : parseFloat(delta.usdc);
+      fee = delta.user?.toLowerCase() === user ? parseFloat(delta.fee || '0') : 0;
+      break;
+    case 'vaultDeposit':
+      amount = -parseFloat(delta.usdc);
+      break;
+    case 'vaultWithdraw':
+      amount = parseFloat(delta.netWithdrawnUsd);
+      break;
+    default:
+      // Spot transfers, liquidation summaries (the fills carry those) etc.
+      return [];
+  }
+
+  if (!amount) return [];
+
+  return [{
+    timestamp: new Date(time).toISOString(),
+    asset: 'USDC',
+    side: amount > 0 ? 'DEPOSIT' : 'WITHDRAWAL',
+    kind: 'transfer',
+    quantity: Math.abs(amount),
+    position_size: 0,
+    entry_price: 0,
+    fees: fee,
+    funding: 0,
+    exchange: EXCHANGE,
+    hash,
+    chain: CHAIN,
+    leverage: 0,
+  }];
+}
+
+// Fees and funding before the replayable history are unknown
+function positionRow(position: any, time: number): PerpTransaction {
+  const positionSize = parseFloat(position.szi);
+
+  return {
+    timestamp: new Date(time || Date.now()).toISOString(),
+    asset: position.coin,
+    side: positionSize >= 0 ? 'LONG' : 'SHORT',
+    kind: 'position',
+    quantity: Math.abs(positionSize),
+    position_size: positionSize,
+    entry_price: parseFloat(position.entryPx),
+    fees: 0,
+    funding: 0,
+    exchange: EXCHANGE,
+    hash: `${position.coin}-open`,
+    chain: CHAIN,
+    leverage: Number(position.leverage?.value) || 0,
+    liquidation: false,
+  };
+}
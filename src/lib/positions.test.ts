@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildPositions, type FundingPayment, type PerpFill } from './positions';
+
+const context = { exchange: 'Test', chain: 'test' };
+
+const fill = (timestamp: string, size: number, price: number, fee: number, extra: Partial<PerpFill> = {}): PerpFill => ({
+  timestamp,
+  asset: 'ETH',
+  size,
+  price,
+  fee,
+  hash: `fill-${timestamp}`,
+  ...extra,
+});
+
+const funding = (timestamp: string, amount: number, positionSize?: number): FundingPayment => ({
+  timestamp,
+  asset: 'ETH',
+  amount,
+  hash: `funding-${timestamp}`,
+  positionSize,
+});
+
+describe('buildPositions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('averages increases into the entry and realizes a partial close against it', () => {
+    const rows = buildPositions([
+      fill('2025-01-01T00:00:00Z', 1, 100, 1),
+      fill('2025-01-02T00:00:00Z', 1, 200, 1),
+      fill('2025-01-03T00:00:00Z', -0.5, 180, 0.5),
+    ], [], context);
+
+    const close = rows.find(row => row.kind === 'close')!;
+    expect(close).toMatchObject({
+      side: 'LONG',
+      quantity: 0.5,
+      position_size: 1.5,
+      entry_price: 150,
+      exit_price: 180,
+      pnl: 15,
+      // Both opening fees plus the closing fee
+      fees: 2.5,
+    });
+
+    const open = rows.find(row => row.kind === 'position')!;
+    expect(open).toMatchObject({ side: 'LONG', quantity: 1.5, position_size: 1.5, entry_price: 150, fees: 0 });
+  });
+
+  it('splits a flipping fill into a close and a new opposite position', () => {
+    const rows = buildPositions([
+      fill('2025-01-01T00:00:00Z', 1, 100, 1),
+      fill('2025-01-02T00:00:00Z', -3, 90, 3),
+    ], [], context);
+
+    expect(rows.find(row => row.kind === 'close')).toMatchObject({
+      side: 'LONG',
+      quantity: 1,
+      position_size: 0,
+      entry_price: 100,
+      exit_price: 90,
+      pnl: -10,
+      // Opening fee plus the third of the flip's fee that closed the long
+      fees: 2,
+    });
+
+    // The other two thirds stay on the short until it's reduced
+    expect(rows.find(row => row.kind === 'position')).toMatchObject({
+      side: 'SHORT',
+      quantity: 2,
+      position_size: -2,
+      entry_price: 90,
+      fees: 2,
+    });
+  });
+
+  it('reports funding before the first fill as its own row and accrues the rest', () => {
+    const rows = buildPositions(
+      [
+        fill('2025-01-02T00:00:00Z', 1, 100, 0),
+        fill('2025-01-04T00:00:00Z', -1, 110, 0),
+      ],
+      [
+        // Charged on a position opened before the history starts
+        funding('2025-01-01T00:00:00Z', 0.4, -2),
+        funding('2025-01-03T00:00:00Z', 0.25),
+        funding('2025-01-03T08:00:00Z', -0.1),
+      ],
+      context
+    );
+
+    expect(rows).toHaveLength(2);
+    expect(rows.find(row => row.kind === 'funding')).toMatchObject({
+      side: 'SHORT',
+      position_size: -2,
+      quantity: 2,
+      funding: 0.4,
+      fees: 0,
+    });
+    const close = rows.find(row => row.kind === 'close')!;
+    expect(close.pnl).toBe(10);
+    expect(close.funding).toBeCloseTo(0.15);
+  });
+
+  it('adopts the exchange position when the replay starts mid-position', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const rows = buildPositions([
+      fill('2025-01-05T00:00:00Z', -1, 110, 0.5, { startPosition: 2, entryPrice: 100 }),
+    ], [], context);
+
+    expect(rows.find(row => row.kind === 'close')).toMatchObject({
+      side: 'LONG',
+      quantity: 1,
+      position_size: 1,
+      entry_price: 100,
+      pnl: 10,
+      fees: 0.5,
+    });
+    expect(rows.find(row => row.kind === 'position')).toMatchObject({ position_size: 1, entry_price: 100 });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('history is incomplete'));
+  });
+});
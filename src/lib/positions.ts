@@ -0,0 +1,234 @@
+// Rebuilds perp positions from raw fills, independent of the exchange.
+//
+// Fills are replayed per asset in time order. Increases move the
+// volume-weighted average entry; every reduction realizes PnL against that
+// entry and emits a row; a fill larger than the open size closes the position
+// and opens the opposite side with the remainder. Fees and funding accrue on
+// the position and are reported on the next reduction, so summing any column
+// over all rows never double counts. Whatever is still open at the end
+// becomes a 'position' row.
+
+import type { PerpTransaction } from './types';
+import { warn } from './warnings';
+
+export interface PerpFill {
+  timestamp: string;
+  asset: string;
+  // Positive for buys, negative for sells
+  size: number;
+  price: number;
+  fee: number;
+  hash: string;
+  liquidation?: boolean;
+  // Position before this fill as reported by the exchange, when known. Lets
+  // history that starts mid-position be reconciled.
+  startPosition?: number;
+  // Entry price of that position as reported by the exchange
+  entryPrice?: number;
+  // Funding settled by this fill (paid; negative when received)
+  funding?: number;
+  // Separates positions in the same asset, e.g. GMX keeps longs and shorts
+  // (per collateral token) apart. Defaults to the asset.
+  positionKey?: string;
+}
+
+export interface FundingPayment {
+  timestamp: string;
+  asset: string;
+  // Paid; negative when received
+  amount: number;
+  hash: string;
+  // Signed position size the payment was charged on, when reported
+  positionSize?: number;
+  positionKey?: string;
+}
+
+export interface PositionContext {
+  exchange: string;
+  chain: string;
+  // Current leverage per asset, when the exchange reports it
+  leverage?: Map<string, number>;
+}
+
+interface PositionState {
+  asset: string;
+  // Signed: positive long, negative short
+  size: number;
+  entry: number;
+  // Accrued since the last reduction
+  fees: number;
+  funding: number;
+  lastTimestamp: string;
+  lastHash: string;
+}
+
+type PositionEvent =
+  | { type: 'fill'; time: number; fill: PerpFill }
+  | { type: 'funding'; time: number; payment: FundingPayment };
+
+// Tolerance for float dust left after a full close
+const EPSILON = 1e-9;
+
+export function buildPositions(
+  fills: PerpFill[],
+  funding: FundingPayment[],
+  context: PositionContext
+): PerpTransaction[] {
+  const events: PositionEvent[] = [
+    ...fills.map(fill => ({ type: 'fill' as const, time: new Date(fill.timestamp).getTime(), fill })),
+    ...funding.map(payment => ({ type: 'funding' as const, time: new Date(payment.timestamp).getTime(), payment })),
+  ];
+  // Stable sort keeps exchange order for fills in the same millisecond
+  events.sort((a, b) => a.time - b.time);
+
+  const positions = new Map<string, PositionState>();
+  const rows: PerpTransaction[] = [];
+  const leverageOf = (asset: string) => context.leverage?.get(asset) || 0;
+
+  for (const event of events) {
+    if (event.type === 'funding') {
+      const { payment } = event;
+      const position = positions.get(payment.positionKey || payment.asset);
+      if (position && Math.abs(position.size) > EPSILON) {
+        position.funding += payment.amount;
+      } else {
+        // Funding with no known position (history starts mid-position)
+        rows.push(fundingRow(payment, context, leverageOf(payment.asset)));
+      }
+      continue;
+    }
+
+    const { fill } = event;
+    const key = fill.positionKey || fill.asset;
+    let position = positions.get(key);
+    if (!position) {
+      position = {
+        asset: fill.asset,
+        size: 0,
+        entry: 0,
+        fees: 0,
+        funding: 0,
+        lastTimestamp: fill.timestamp,
+        lastHash: fill.hash,
+      };
+      positions.set(key, position);
+    }
+
+    reconcile(position, fill);
+    position.lastTimestamp = fill.timestamp;
+    position.lastHash = fill.hash;
+    position.funding += fill.funding || 0;
+
+    const quantity = Math.abs(fill.size);
+    if (quantity === 0) continue;
+
+    const increasing = Math.abs(position.size) <= EPSILON || Math.sign(position.size) === Math.sign(fill.size);
+    if (increasing) {
+      const held = Math.abs(position.size);
+      position.entry = (position.entry * held + fill.price * quantity) / (held + quantity);
+      position.size += fill.size;
+      position.fees += fill.fee;
+      continue;
+    }
+
+    const closed = Math.min(quantity, Math.abs(position.size));
+    const long = position.size > 0;
+    // Split the fee between the closing part and any flipped remainder
+    const closingFee = fill.fee * (closed / quantity);
+
+    rows.push({
+      timestamp: fill.timestamp,
+      asset: fill.asset,
+      side: long ? 'LONG' : 'SHORT',
+      kind: 'close',
+      quantity: closed,
+      position_size: position.size + Math.sign(fill.size) * closed,
+      entry_price: position.entry,
+      exit_price: fill.price,
+      pnl: (fill.price - position.entry) * closed * (long ? 1 : -1),
+      fees: position.fees + closingFee,
+      funding: position.funding,
+      exchange: context.exchange,
+      hash: fill.hash,
+      chain: context.chain,
+      leverage: leverageOf(fill.asset),
+      liquidation: Boolean(fill.liquidation),
+    });
+
+    position.fees = 0;
+    position.funding = 0;
+    position.size += Math.sign(fill.size) * closed;
+
+    const remainder = quantity - closed;
+    if (Math.abs(position.size) <= EPSILON) {
+      position.size = 0;
+      position.entry = 0;
+    }
+    if (remainder > EPSILON) {
+      // Flip: the rest opens the opposite side at the fill price
+      position.size = Math.sign(fill.size) * remainder;
+      position.entry = fill.price;
+      position.fees = fill.fee - closingFee;
+    }
+  }
+
+  for (const position of positions.values()) {
+    if (Math.abs(position.size) <= EPSILON) continue;
+
+    rows.push({
+      timestamp: position.lastTimestamp,
+      asset: position.asset,
+      side: position.size > 0 ? 'LONG' : 'SHORT',
+      kind: 'position',
+      quantity: Math.abs(position.size),
+      position_size: position.size,
+      entry_price: position.entry,
+      fees: position.fees,
+      funding: position.funding,
+      exchange: context.exchange,
+      hash: position.lastHash,
+      chain: context.chain,
+      leverage: leverageOf(position.asset),
+      liquidation: false,
+    });
+  }
+
+  return rows.sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
+// When the exchange says the position before this fill differs from what the
+// replay has (fills before the requested window, or beyond what the exchange
+// serves), adopt the exchange's view
+function reconcile(position: PositionState, fill: PerpFill) {
+  if (fill.startPosition === undefined || Math.abs(fill.startPosition - position.size) <= EPSILON) return;
+
+  warn(
+    `${fill.asset} position before ${fill.hash} is ${fill.startPosition}, replay has ${position.size}; ` +
+    'history is incomplete, using the exchange position'
+  );
+
+  position.size = fill.startPosition;
+  position.entry = fill.entryPrice ?? fill.price;
+}
+
+function fundingRow(payment: FundingPayment, context: PositionContext, leverage: number): PerpTransaction {
+  const positionSize = payment.positionSize ?? 0;
+
+  return {
+    timestamp: payment.timestamp,
+    asset: payment.asset,
+    side: positionSize >= 0 ? 'LONG' : 'SHORT',
+    kind: 'funding',
+    quantity: Math.abs(positionSize),
+    position_size: positionSize,
+    entry_price: 0,
+    fees: 0,
+    funding: payment.amount,
+    exchange: context.exchange,
+    hash: payment.hash,
+    chain: context.chain,
+    leverage,
+  };
+}
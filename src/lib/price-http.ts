@@ -0,0 +1,141 @@
+// Price sources backed by an HTTP API. A provider only describes how to ask
+// for a price series around a timestamp and how to read the response;
+// fetching, caching fetched series on disk and picking the nearest point is
+// shared. CoinGecko is the built-in provider.
+
+import { createDiskCache, type DiskCache } from './cache';
+import { nearestPrice, type PriceQuery, type PriceSeries, type PriceSource } from './price-sources';
+import { warn } from './warnings';
+
+const DAY = 86400;
+
+export interface HttpPriceRequest {
+  url: string;
+  headers?: Record<string, string>;
+  // Unix seconds; a window that has fully elapsed is cached for good
+  windowEnd: number;
+}
+
+export interface HttpPriceProvider {
+  name: string;
+  // Series request covering `query`, or undefined when the provider doesn't
+  // list the asset
+  request(query: PriceQuery): HttpPriceRequest | undefined;
+  parse(data: any): PriceSeries;
+  // Furthest the nearest returned point may be from the queried time
+  maxGap: number;
+}
+
+export function createHttpPriceSource(provider: HttpPriceProvider): PriceSource {
+  const cache: DiskCache<PriceSeries> = createDiskCache<PriceSeries>(`prices-${provider.name}`);
+  // Set after a 429; requests are skipped for a minute
+  let pausedUntil = 0;
+
+  return {
+    name: provider.name,
+    async getPrice(query) {
+      const request = provider.request(query);
+      if (!request) return undefined;
+
+      let series = await cache.get(request.url);
+      if (!series) {
+        if (Date.now() < pausedUntil) return undefined;
+
+        const response = await fetch(request.url, { headers: request.headers });
+        if (response.status === 429) {
+          pausedUntil = Date.now() + 60 * 1000;
+          warn(`${provider.name} rate limit reached; some prices were skipped`);
+          return undefined;
+        }
+        if (response.status === 404) {
+          // Asset not listed
+          series = [];
+        } else if (!response.ok) {
+          throw new Error(`${provider.name} price request failed: ${response.status} ${response.statusText}`);
+        } else {
+          series = provider.parse(await response.json()).sort((a, b) => a[0] - b[0]);
+        }
+
+        if (request.windowEnd < Date.now() / 1000) {
+          await cache.set(request.url, series);
+          await cache.flush();
+        }
+      }
+
+      return nearestPrice(series, query.timestamp, provider.maxGap);
+    },
+  };
+}
+
+// Native assets, and symbols on chains CoinGecko has no contract index for
+const COINGECKO_IDS: Record<string, string> = {
+  SOL: 'solana',
+  ETH: 'ethereum',
+  BTC: 'bitcoin',
+  MATIC: 'matic-network',
+  POL: 'polygon-ecosystem-token',
+  TAO: 'bittensor',
+  DOT: 'polkadot',
+  OSMO: 'osmosis',
+  ATOM: 'cosmos',
+  RON: 'ronin',
+  AVAX: 'avalanche-2',
+  HYPE: 'hyperliquid',
+  OP: 'optimism',
+  USDC: 'usd-coin',
+  USDT: 'tether',
+};
+
+// CoinGecko asset platform per chain, for lookups by contract / mint
+const COINGECKO_PLATFORMS: Record<string, string> = {
+  ethereum: 'ethereum',
+  base: 'base',
+  arbitrum: 'arbitrum-one',
+  polygon: 'polygon-pos',
+  optimism: 'optimistic-ethereum',
+  solana: 'solana',
+  ronin: 'ronin',
+  avalanche: 'avalanche',
+};
+
+// Asks for the UTC day around the timestamp, which CoinGecko answers with
+// hourly points (daily for dates beyond the plan's history limit)
+export function createCoinGeckoProvider(
+  apiKey = process.env.COINGECKO_API_KEY,
+  baseUrl = process.env.COINGECKO_API_URL || 'https://api.coingecko.com/api/v3'
+): HttpPriceProvider {
+  return {
+    name: 'coingecko',
+    maxGap: DAY,
+
+    request(query) {
+      const platform = COINGECKO_PLATFORMS[query.chain];
+      const id = COINGECKO_IDS[query.asset.toUpperCase()];
+
+      // A token's symbol can be anything; go by its address where CoinGecko
+      // indexes the chain
+      let coinPath: string;
+      if (query.tokenAddress && platform) {
+        coinPath = `coins/${platform}/contract/${query.tokenAddress}`;
+      } else if (id) {
+        coinPath = `coins/${id}`;
+      } else {
+        return undefined;
+      }
+
+      const from = Math.floor(query.timestamp / DAY) * DAY;
+      const to = from + DAY;
+
+      return {
+        url: `${baseUrl}/${coinPath}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`,
+        headers: apiKey ? { 'x-cg-demo-api-key': apiKey } : undefined,
+        windowEnd: to,
+      };
+    },
+
+    // { prices: [[ms, price], ...], market_caps: [...], total_volumes: [...] }
+    parse(data) {
+      return (data.prices || []).map(([ms, price]: [number, number]) => [Math.floor(ms / 1000), price]);
+    },
+  };
+}
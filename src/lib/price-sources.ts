@@ -0,0 +1,247 @@
+// Historical USD price sources. A source answers "what was this asset worth
+// at this time" or says it doesn't know; the oracle in prices.ts tries
+// sources in order and caches what they return.
+//
+// Local files are read from PRICE_DATA_DIR (default ./prices):
+//   - price files: a header row with timestamp, asset and price columns
+//     (optionally chain); asset is a symbol or a token address
+//   - OHLCV dumps: exchange kline exports named after the pair, e.g.
+//     SOLUSDT-1h-2024-01.csv (Binance, no header) or BTC-USD.csv with a
+//     timestamp/open/high/low/close header; a row is valued at the close of
+//     the candle it falls in
+// Files are plain comma separated without quoted fields.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const PRICE_DATA_DIR = process.env.PRICE_DATA_DIR || path.join(process.cwd(), 'prices');
+
+// Price files are usually daily closes; don't stretch one further than that
+const PRICE_FILE_MAX_GAP = 86400;
+
+// Pair suffixes treated as USD when naming an OHLCV dump
+const USD_QUOTES = /(USDT|USDC|FDUSD|BUSD|USD)$/;
+
+export interface PriceQuery {
+  asset: string;
+  chain: string;
+  // Mint / contract / denom; omitted for the chain's native asset
+  tokenAddress?: string;
+  // Unix seconds
+  timestamp: number;
+  // Transaction being priced; lets on-chain sources read state at its block
+  hash?: string;
+}
+
+export interface PriceSource {
+  name: string;
+  // USD per unit at query.timestamp, or undefined when the source has no
+  // price close enough in time
+  getPrice(query: PriceQuery): Promise<number | undefined>;
+}
+
+// [unix seconds, USD price], sorted by time
+export type PriceSeries = [number, number][];
+
+// Price of the point closest to `timestamp`, if within `maxGap` seconds
+export function nearestPrice(series: PriceSeries, timestamp: number, maxGap: number): number | undefined {
+  if (series.length === 0) return undefined;
+
+  // First point at or after timestamp
+  let low = 0;
+  let high = series.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (series[mid][0] < timestamp) low = mid + 1;
+    else high = mid;
+  }
+
+  let best: [number, number] | undefined;
+  for (const point of [series[low - 1], series[low]]) {
+    if (point && (!best || Math.abs(point[0] - timestamp) < Math.abs(best[0] - timestamp))) {
+      best = point;
+    }
+  }
+
+  return best && Math.abs(best[0] - timestamp) <= maxGap ? best[1] : undefined;
+}
+
+// Unix seconds from an ISO date or a seconds / milliseconds / microseconds
+// epoch (Binance switched spot klines to microseconds in 2025)
+export function toUnixSeconds(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const epoch = parseFloat(trimmed);
+    if (epoch > 1e14) return Math.floor(epoch / 1e6);
+    if (epoch > 1e11) return Math.floor(epoch / 1e3);
+    return Math.floor(epoch);
+  }
+
+  const ms = Date.parse(trimmed);
+  return isNaN(ms) ? undefined : Math.floor(ms / 1000);
+}
+
+// Symbols and addresses from different sources disagree on case
+function assetKey(value: string): string {
+  return value.toUpperCase();
+}
+
+function queryKeys(query: PriceQuery): string[] {
+  return query.tokenAddress
+    ? [assetKey(query.tokenAddress), assetKey(query.asset)]
+    : [assetKey(query.asset)];
+}
+
+function parseLines(text: string): string[][] {
+  return text
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .map(line => line.split(',').map(cell => cell.trim()));
+}
+
+function isHeader(cells: string[]): boolean {
+  return cells.length > 0 && toUnixSeconds(cells[0]) === undefined;
+}
+
+export function createPriceFileSource(file: string): PriceSource {
+  let loading: Promise<Map<string, PriceSeries>> | null = null;
+
+  const load = async () => {
+    const lines = parseLines(await fs.readFile(file, 'utf8'));
+    const header = (lines[0] || []).map(cell => cell.toLowerCase());
+    const timeColumn = header.indexOf('timestamp');
+    const assetColumn = header.indexOf('asset');
+    const priceColumn = header.indexOf('price');
+    const chainColumn = header.indexOf('chain');
+    if (timeColumn < 0 || assetColumn < 0 || priceColumn < 0) {
+      throw new Error(`Price file ${file} needs timestamp, asset and price columns`);
+    }
+
+    const series = new Map<string, PriceSeries>();
+    for (const cells of lines.slice(1)) {
+      const time = toUnixSeconds(cells[timeColumn] || '');
+      const price = parseFloat(cells[priceColumn]);
+      if (time === undefined || !isFinite(price)) continue;
+
+      const asset = assetKey(cells[assetColumn]);
+      const chain = chainColumn >= 0 ? cells[chainColumn]?.toLowerCase() : '';
+      const key = chain ? `${chain}:${asset}` : asset;
+      if (!series.has(key)) series.set(key, []);
+      series.get(key)!.push([time, price]);
+    }
+
+    for (const points of series.values()) points.sort((a, b) => a[0] - b[0]);
+    return series;
+  };
+
+  return {
+    name: path.basename(file),
+    async getPrice(query) {
+      if (!loading) loading = load();
+      const series = await loading;
+
+      for (const key of queryKeys(query)) {
+        const points = series.get(`${query.chain}:${key}`) || series.get(key);
+        const price = points && nearestPrice(points, query.timestamp, PRICE_FILE_MAX_GAP);
+        if (price !== undefined) return price;
+      }
+      return undefined;
+    },
+  };
+}
+
+// SOLUSDT-1h-2024-01.csv -> SOL, BTC-USD.csv -> BTC
+export function ohlcvFileAsset(file: string): string {
+  const pair = path.basename(file).split(/[-_.]/)[0].toUpperCase();
+  const base = pair.replace(USD_QUOTES, '');
+  return base || pair;
+}
+
+export function createOhlcvSource(file: string, asset = ohlcvFileAsset(file)): PriceSource {
+  // Candle open times and closes, plus the candle length
+  let loading: Promise<{ candles: PriceSeries; interval: number }> | null = null;
+
+  const load = async () => {
+    const lines = parseLines(await fs.readFile(file, 'utf8'));
+    let timeColumn = 0;
+    let closeColumn = 4;
+
+    if (lines.length > 0 && isHeader(lines[0])) {
+      const header = lines.shift()!.map(cell => cell.toLowerCase());
+      timeColumn = header.findIndex(cell => ['timestamp', 'time', 'open_time', 'date', 'unix'].includes(cell));
+      closeColumn = header.indexOf('close');
+      if (timeColumn < 0 || closeColumn < 0) {
+        throw new Error(`OHLCV file ${file} needs a time and a close column`);
+      }
+    }
+
+    const candles: PriceSeries = [];
+    for (const cells of lines) {
+      const time = toUnixSeconds(cells[timeColumn] || '');
+      const close = parseFloat(cells[closeColumn]);
+      if (time !== undefined && isFinite(close)) candles.push([time, close]);
+    }
+    candles.sort((a, b) => a[0] - b[0]);
+
+    // Smallest step between candles; gaps in a dump are missing candles
+    let interval = Infinity;
+    for (let i = 1; i < candles.length; i++) {
+      const step = candles[i][0] - candles[i - 1][0];
+      if (step > 0 && step < interval) interval = step;
+    }
+
+    return { candles, interval: isFinite(interval) ? interval : 86400 };
+  };
+
+  return {
+    name: path.basename(file),
+    async getPrice(query) {
+      if (!queryKeys(query).includes(assetKey(asset))) return undefined;
+
+      if (!loading) loading = load();
+      const { candles, interval } = await loading;
+
+      // Last candle opened at or before the timestamp
+      let low = 0;
+      let high = candles.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (candles[mid][0] <= query.timestamp) low = mid + 1;
+        else high = mid;
+      }
+
+      const candle = candles[low - 1];
+      return candle && query.timestamp < candle[0] + interval ? candle[1] : undefined;
+    },
+  };
+}
+
+// Every .csv under `dir`, sorted by name; a missing directory yields none
+export async function loadPriceDirectory(dir = PRICE_DATA_DIR): Promise<PriceSource[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const sources: PriceSource[] = [];
+  for (const name of names.filter(name => name.toLowerCase().endsWith('.csv')).sort()) {
+    const file = path.join(dir, name);
+    const handle = await fs.open(file, 'r');
+    let firstLine = '';
+    try {
+      const { buffer, bytesRead } = await handle.read(Buffer.alloc(512), 0, 512, 0);
+      firstLine = buffer.subarray(0, bytesRead).toString('utf8').split(/\r?\n/)[0].toLowerCase();
+    } finally {
+      await handle.close();
+    }
+
+    const cells = firstLine.split(',').map(cell => cell.trim());
+    sources.push(cells.includes('price') && !cells.includes('close')
+      ? createPriceFileSource(file)
+      : createOhlcvSource(file));
+  }
+
+  return sources;
+}
@@ -0,0 +1,209 @@
+// Values spot rows in USD at their own timestamps. Sources are tried in
+// order (local price files and OHLCV dumps, the HTTP provider, then on-chain
+// DEX pools for whatever is left) and answers are kept in a disk cache per
+// asset and hour.
+//
+// A row no source covers can still be valued through the trade it was part
+// of: the other leg of the swap, if that leg has a market price or is a USD
+// stablecoin. Such rows are marked 'implied'. Rows neither way can price are
+// marked 'missing' rather than given a made-up number.
+
+import { createDiskCache } from './cache';
+import { createUniswapV3Source } from './evm-twap';
+import { createCoinGeckoProvider, createHttpPriceSource } from './price-http';
+import { loadPriceDirectory, type PriceQuery, type PriceSource } from './price-sources';
+import { RpcError } from './rpc';
+import { createSolanaPoolSource } from './solana-pools';
+import type { SpotTransaction } from './types';
+import { warn } from './warnings';
+
+const BUCKET_SECONDS = 3600;
+// Pause before the one retry of a transient source error
+const RETRY_DELAY_MS = 1000;
+
+// Taken at $1 when they're the other leg of a trade and have no market price
+// of their own. Matched by symbol, so they never price a row directly.
+const USD_STABLECOINS = new Set(['USDC', 'USDC.E', 'USDBC', 'USDT', 'USDT0', 'DAI', 'USDS', 'PYUSD', 'FDUSD', 'USDH']);
+
+const INCOMING_SIDES = new Set(['BUY']);
+const OUTGOING_SIDES = new Set(['SELL']);
+
+interface CachedPrice {
+  price: number;
+  source: string;
+}
+
+const cache = createDiskCache<CachedPrice>('prices');
+
+let httpSource: PriceSource | null = null;
+let onChainSources: PriceSource[] | null = null;
+
+// PRICE_PROVIDER=none skips the HTTP provider; ONCHAIN_PRICES=false skips
+// the DEX pool sources, which cost many RPC calls per asset
+export async function getDefaultPriceSources(): Promise<PriceSource[]> {
+  const sources = await loadPriceDirectory();
+  if (process.env.PRICE_PROVIDER !== 'none') {
+    if (!httpSource) httpSource = createHttpPriceSource(createCoinGeckoProvider());
+    sources.push(httpSource);
+  }
+  if (process.env.ONCHAIN_PRICES !== 'false') {
+    if (!onChainSources) onChainSources = [createUniswapV3Source(), createSolanaPoolSource()];
+    sources.push(...onChainSources);
+  }
+  return sources;
+}
+
+export async function priceSpotTransactions(
+  transactions: SpotTransaction[],
+  sources: PriceSource[]
+): Promise<SpotTransaction[]> {
+  const resolved = new Map<string, CachedPrice | null>();
+  // A source that keeps erroring on a chain (no archive state, an RPC that's
+  // down) is skipped there for the rest of the batch, not everywhere
+  const failed = new Set<string>();
+
+  const resolve = async (query: PriceQuery) => {
+    const key = cacheKey(query);
+    if (!resolved.has(key)) {
+      resolved.set(key, await lookup(query, key, sources, failed));
+    }
+    return resolved.get(key) || null;
+  };
+
+  const priced: SpotTransaction[] = [];
+  for (const tx of transactions) {
+    const hit = await resolve(toQuery(tx.asset, tx.token_address, tx));
+    priced.push(hit
+      ? { ...tx, price: hit.price, total: tx.quantity * hit.price, price_status: 'priced', price_source: hit.source }
+      : { ...tx, price: 0, total: 0, price_status: 'missing', price_source: undefined });
+  }
+
+  const byHash = new Map<string, SpotTransaction[]>();
+  for (const tx of priced) {
+    if (!byHash.has(tx.hash)) byHash.set(tx.hash, []);
+    byHash.get(tx.hash)!.push(tx);
+  }
+
+  for (let i = 0; i < priced.length; i++) {
+    const tx = priced[i];
+    if (tx.price_status !== 'missing' || tx.quantity <= 0) continue;
+
+    const counterpart = await impliedValue(tx, byHash.get(tx.hash) || [], resolve);
+    if (counterpart) {
+      const price = counterpart.value / tx.quantity;
+      priced[i] = { ...tx, price, total: counterpart.value, price_status: 'implied', price_source: `implied:${counterpart.asset}` };
+    }
+  }
+
+  await cache.flush();
+
+  const missing = priced.filter(tx => tx.price_status === 'missing');
+  if (missing.length > 0) {
+    const assets = [...new Set(missing.map(tx => tx.asset))];
+    warn(
+      `No price for ${missing.length} of ${priced.length} rows (${assets.slice(0, 5).join(', ')}` +
+      `${assets.length > 5 ? `, +${assets.length - 5} more` : ''}); their USD values are left empty`
+    );
+  }
+
+  return priced;
+}
+
+// USD value of what the row was traded against: the received leg of a SWAP
+// row, or the single opposite BUY/SELL in the same transaction. Only market
+// prices and stablecoins count, never another implied price.
+async function impliedValue(
+  tx: SpotTransaction,
+  sameHash: SpotTransaction[],
+  resolve: (query: PriceQuery) => Promise<CachedPrice | null>
+): Promise<{ value: number; asset: string } | undefined> {
+  if (tx.side === 'SWAP') {
+    if (!tx.received_asset || !tx.received_quantity) return undefined;
+
+    const hit = await resolve(toQuery(tx.received_asset, tx.received_token_address, tx));
+    const price = hit ? hit.price : stablecoinPeg(tx.received_asset);
+    return price === undefined ? undefined : { value: tx.received_quantity * price, asset: tx.received_asset };
+  }
+
+  const opposite = INCOMING_SIDES.has(tx.side) ? OUTGOING_SIDES : OUTGOING_SIDES.has(tx.side) ? INCOMING_SIDES : null;
+  if (!opposite) return undefined;
+
+  const legs = sameHash.filter(other => INCOMING_SIDES.has(other.side) || OUTGOING_SIDES.has(other.side));
+  const others = legs.filter(other => opposite.has(other.side));
+  if (legs.length !== 2 || others.length !== 1) return undefined;
+
+  const other = others[0];
+  const price = other.price_status === 'priced' ? other.price : stablecoinPeg(other.asset);
+  return price === undefined ? undefined : { value: other.quantity * price, asset: other.asset };
+}
+
+function stablecoinPeg(asset: string): number | undefined {
+  return USD_STABLECOINS.has(asset.toUpperCase()) ? 1 : undefined;
+}
+
+function toQuery(asset: string, tokenAddress: string | undefined, tx: SpotTransaction): PriceQuery {
+  return {
+    asset,
+    chain: tx.chain,
+    tokenAddress,
+    timestamp: Math.floor(new Date(tx.timestamp).getTime() / 1000),
+    hash: tx.hash,
+  };
+}
+
+async function lookup(
+  query: PriceQuery,
+  key: string,
+  sources: PriceSource[],
+  failed: Set<string>
+): Promise<CachedPrice | null> {
+  const cached = await cache.get(key);
+  if (cached) return cached;
+
+  for (const source of sources) {
+    const failureKey = `${source.name}:${query.chain}`;
+    if (failed.has(failureKey)) continue;
+
+    try {
+      const price = await withRetry(() => source.getPrice(query));
+      if (price !== undefined) {
+        const result = { price, source: source.name };
+        await cache.set(key, result);
+        return result;
+      }
+    } catch (err) {
+      failed.add(failureKey);
+      warn(`Price source ${source.name} failed on ${query.chain}; skipping it there:`, err);
+    }
+  }
+
+  // Misses aren't cached: a price file added later should fill them in
+  return null;
+}
+
+async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (err) {
+    if (!isTransient(err)) throw err;
+    await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+    return fn();
+  }
+}
+
+// Dropped connections, timeouts, rate limits and 5xx responses
+function isTransient(err: unknown): boolean {
+  if (err instanceof RpcError && err.code !== undefined && (err.code === 429 || (err.code >= 500 && err.code < 600))) {
+    return true;
+  }
+  // Node's fetch reports socket errors as `fetch failed` with the code on its cause
+  const cause = err instanceof Error ? err.cause : undefined;
+  const code = typeof cause === 'object' && cause && 'code' in cause ? String(cause.code) : '';
+  const message = err instanceof Error ? `${err.message} ${code}` : String(err);
+  return /fetch failed|ECONNRESET|ETIMEDOUT|ECONNREFUSED|socket hang up|timed? ?out|rate limit|\b(429|5\d\d)\b/i.test(message);
+}
+
+function cacheKey(query: PriceQuery): string {
+  const bucket = Math.floor(query.timestamp / BUCKET_SECONDS) * BUCKET_SECONDS;
+  return `${query.chain}:${query.tokenAddress || query.asset}:${bucket}`;
+}
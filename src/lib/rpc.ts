@@ -0,0 +1,70 @@
+// Minimal JSON-RPC 2.0 client shared by the chain fetchers
+
+export class RpcError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number,
+    public readonly method?: string
+  ) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+export interface RpcRequest {
+  method: string;
+  params?: unknown[];
+}
+
+export async function rpcCall<T = any>(rpcUrl: string, method: string, params: unknown[] = []): Promise<T> {
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+  });
+
+  if (!response.ok) {
+    throw new RpcError(`${method} failed: ${response.status} ${response.statusText}`, response.status, method);
+  }
+
+  const data = await response.json();
+  if (data.error) {
+    throw new RpcError(data.error.message || `${method} failed`, data.error.code, method);
+  }
+
+  return data.result as T;
+}
+
+// Sends several calls in one HTTP request. Failed entries come back as null so
+// one bad item doesn't sink the whole batch. Endpoints that reject batching
+// get the calls one at a time instead.
+export async function rpcBatch<T = any>(rpcUrl: string, requests: RpcRequest[]): Promise<(T | null)[]> {
+  if (requests.length === 0) return [];
+
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(
+      requests.map((req, id) => ({ jsonrpc: '2.0', id, method: req.method, params: req.params || [] }))
+    ),
+  });
+
+  if (!response.ok) {
+    throw new RpcError(`Batch request failed: ${response.status} ${response.statusText}`, response.status);
+  }
+
+  const data = await response.json();
+  if (!Array.isArray(data)) {
+    return Promise.all(
+      requests.map(req => rpcCall<T>(rpcUrl, req.method, req.params).catch(() => null))
+    );
+  }
+
+  const results: (T | null)[] = new Array(requests.length).fill(null);
+  for (const item of data) {
+    if (typeof item.id === 'number' && !item.error) {
+      results[item.id] = item.result ?? null;
+    }
+  }
+  return results;
+}
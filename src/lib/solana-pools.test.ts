@@ -0,0 +1,157 @@
+import { PublicKey } from '@solana/web3.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSolanaPoolSource } from './solana-pools';
+import { stubRpc } from './test-fetch';
+
+const RPC_URL = 'https://solana-rpc.example';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const RAYDIUM_AMM_V4 = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+const WHIRLPOOL = 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc';
+
+const key = (seed: number) => new PublicKey(Buffer.alloc(32, seed)).toBase58();
+
+const TOKEN_MINT = key(1);
+const POOL = key(2);
+const TOKEN_VAULT = key(3);
+const USDC_VAULT = key(4);
+const TRADER = key(5);
+const PRICED_TX = 'priced-signature';
+const PRICED_AT = 1_700_000_000;
+
+interface PoolFixture {
+  programId: string;
+  mintA: string;
+  mintB: string;
+  // Vault offsets within the dataSlice the source asks for
+  vaultA: number;
+  vaultB: number;
+  sliceLength: number;
+  vaultAKey: string;
+  vaultBKey: string;
+  // Newest first, as getSignaturesForAddress returns them
+  transactions: { signature: string; err?: unknown; blockTime: number; tx?: any }[];
+}
+
+// [token vault, usdc vault] amounts before and after, as uiAmountStrings
+function poolTransaction(before: [string, string] | null, after: [string, string], lookupTable = false) {
+  const balance = (accountIndex: number, mint: string, uiAmountString: string) => ({
+    accountIndex,
+    mint,
+    owner: POOL,
+    uiTokenAmount: { uiAmountString, decimals: 6, amount: '0', uiAmount: parseFloat(uiAmountString) },
+  });
+  // Vaults loaded through an address lookup table come after the static keys
+  const accountKeys = lookupTable ? [TRADER, POOL] : [TRADER, POOL, TOKEN_VAULT, USDC_VAULT];
+
+  return {
+    slot: 250_000_000,
+    blockTime: PRICED_AT - 60,
+    transaction: { message: { accountKeys }, signatures: ['sig'] },
+    meta: {
+      err: null,
+      fee: 5000,
+      loadedAddresses: lookupTable ? { writable: [TOKEN_VAULT, USDC_VAULT], readonly: [] } : { writable: [], readonly: [] },
+      preTokenBalances: before ? [balance(2, TOKEN_MINT, before[0]), balance(3, USDC_MINT, before[1])] : [],
+      postTokenBalances: [balance(2, TOKEN_MINT, after[0]), balance(3, USDC_MINT, after[1])],
+    },
+  };
+}
+
+function stubPool(pool: PoolFixture) {
+  return stubRpc((method, params) => {
+    switch (method) {
+      case 'getProgramAccounts': {
+        const [programId, { filters }] = params;
+        const mints = filters.filter((filter: any) => filter.memcmp).map((filter: any) => filter.memcmp.bytes);
+        if (programId !== pool.programId || mints[0] !== pool.mintA || mints[1] !== pool.mintB) return [];
+
+        const data = Buffer.alloc(pool.sliceLength);
+        new PublicKey(pool.vaultAKey).toBuffer().copy(data, pool.vaultA);
+        new PublicKey(pool.vaultBKey).toBuffer().copy(data, pool.vaultB);
+        return [{ pubkey: POOL, account: { data: [data.toString('base64'), 'base64'], owner: programId } }];
+      }
+      case 'getSignaturesForAddress':
+        expect(params).toEqual([POOL, { before: PRICED_TX, limit: 10 }]);
+        return pool.transactions.map(({ signature, err, blockTime }) => ({ signature, err: err ?? null, blockTime }));
+      case 'getTransaction':
+        return pool.transactions.find(entry => entry.signature === params[0])?.tx ?? null;
+    }
+    throw new Error(`Unexpected ${method}`);
+  });
+}
+
+const query = { asset: 'TKN', chain: 'solana', tokenAddress: TOKEN_MINT, timestamp: PRICED_AT, hash: PRICED_TX };
+
+describe('createSolanaPoolSource', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('prices from the post-trade reserves of a Raydium pool, skipping failed transactions', async () => {
+    stubPool({
+      programId: RAYDIUM_AMM_V4,
+      mintA: TOKEN_MINT,
+      mintB: USDC_MINT,
+      // Slice starts at the base vault (336); the quote vault is at 368
+      vaultA: 0,
+      vaultB: 32,
+      sliceLength: 64,
+      vaultAKey: TOKEN_VAULT,
+      vaultBKey: USDC_VAULT,
+      transactions: [
+        { signature: 'failed', err: { InstructionError: [0, 'Custom'] }, blockTime: PRICED_AT - 30 },
+        { signature: 'swap', blockTime: PRICED_AT - 60, tx: poolTransaction(['1010', '2475'], ['1000', '2500']) },
+      ],
+    });
+
+    const price = await createSolanaPoolSource(RPC_URL).getPrice(query);
+
+    expect(price).toBeCloseTo(2.5, 9);
+  });
+
+  it('prices a Whirlpool from the swap vault deltas, not a liquidity deposit', async () => {
+    stubPool({
+      programId: WHIRLPOOL,
+      // USDC sorts as token A here, so the token's vault is B
+      mintA: USDC_MINT,
+      mintB: TOKEN_MINT,
+      // Slice starts at vault A (133); vault B is at 213
+      vaultA: 0,
+      vaultB: 80,
+      sliceLength: 112,
+      vaultAKey: USDC_VAULT,
+      vaultBKey: TOKEN_VAULT,
+      transactions: [
+        // Both vaults grow: a deposit, which says nothing about the price
+        { signature: 'deposit', blockTime: PRICED_AT - 30, tx: poolTransaction(['500', '1000'], ['600', '1400'], true) },
+        // 10 tokens sold into the pool for 25 USDC
+        { signature: 'swap', blockTime: PRICED_AT - 60, tx: poolTransaction(['490', '1025'], ['500', '1000'], true) },
+      ],
+    });
+
+    const price = await createSolanaPoolSource(RPC_URL).getPrice(query);
+
+    expect(price).toBeCloseTo(2.5, 9);
+  });
+
+  it('gives no price when the last pool trade is more than a day old', async () => {
+    const calls = stubPool({
+      programId: RAYDIUM_AMM_V4,
+      mintA: TOKEN_MINT,
+      mintB: USDC_MINT,
+      vaultA: 0,
+      vaultB: 32,
+      sliceLength: 64,
+      vaultAKey: TOKEN_VAULT,
+      vaultBKey: USDC_VAULT,
+      transactions: [
+        { signature: 'stale', blockTime: PRICED_AT - 2 * 86400, tx: poolTransaction(null, ['1000', '2500']) },
+      ],
+    });
+
+    const price = await createSolanaPoolSource(RPC_URL).getPrice(query);
+
+    expect(price).toBeUndefined();
+    expect(calls).not.toContain('getTransaction');
+  });
+});
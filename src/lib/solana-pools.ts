@@ -0,0 +1,204 @@
+// Solana DEX pool prices for tokens no price provider lists. The token's
+// deepest Raydium AMM v4 or Orca Whirlpool pool against USDC (or SOL,
+// converted through SOL/USDC) is found with getProgramAccounts, then read
+// from the last pool transaction before the one being priced: the
+// post-trade reserve ratio for constant-product Raydium pools, or the
+// executed swap price for Whirlpools, whose vault balances say nothing about
+// the concentrated-liquidity price.
+//
+// Account state can't be queried at a past slot, so the priced transaction's
+// signature is the anchor; queries without one aren't answered. The RPC URL
+// is injectable, so a local validator or a fixture RPC can stand in.
+
+import { PublicKey } from '@solana/web3.js';
+import { getRpcUrl } from './chains';
+import type { PriceQuery, PriceSource } from './price-sources';
+import { rpcCall } from './rpc';
+import { NATIVE_SOL_MINT } from './solana';
+
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+// Pool transactions to look back through for one that moved the price
+const SIGNATURE_LOOKBACK = 10;
+// An idle pool's last trade says little about the price a day later
+const MAX_STALENESS = 86400;
+
+interface PoolLayout {
+  programId: string;
+  dataSize: number;
+  // Byte offsets of the two mints and their vaults
+  mintA: number;
+  mintB: number;
+  vaultA: number;
+  vaultB: number;
+  constantProduct: boolean;
+}
+
+const POOL_LAYOUTS: PoolLayout[] = [
+  // Raydium AMM v4 (LIQUIDITY_STATE_LAYOUT_V4): base = A, quote = B
+  {
+    programId: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
+    dataSize: 752,
+    mintA: 400,
+    mintB: 432,
+    vaultA: 336,
+    vaultB: 368,
+    constantProduct: true,
+  },
+  // Orca Whirlpool
+  {
+    programId: 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc',
+    dataSize: 653,
+    mintA: 101,
+    mintB: 181,
+    vaultA: 133,
+    vaultB: 213,
+    constantProduct: false,
+  },
+];
+
+interface Pool {
+  address: string;
+  tokenVault: string;
+  quoteVault: string;
+  constantProduct: boolean;
+}
+
+export function createSolanaPoolSource(rpcUrl = getRpcUrl('solana')): PriceSource {
+  // Deepest pool per pair, looked up once per process
+  const pools = new Map<string, Promise<Pool | undefined>>();
+
+  const poolFor = (token: string, quote: string) => {
+    const key = `${token}:${quote}`;
+    if (!pools.has(key)) {
+      // Don't keep a failed lookup (e.g. getProgramAccounts rate limited)
+      pools.set(key, findDeepestPool(rpcUrl!, token, quote).catch(err => {
+        pools.delete(key);
+        throw err;
+      }));
+    }
+    return pools.get(key)!;
+  };
+
+  const priceIn = async (token: string, quote: string, query: PriceQuery) => {
+    const pool = await poolFor(token, quote);
+    return pool ? poolPrice(rpcUrl!, pool, query.hash!, query.timestamp) : undefined;
+  };
+
+  return {
+    name: 'solana-pools',
+    async getPrice(query: PriceQuery) {
+      if (query.chain !== 'solana' || !query.hash || !rpcUrl) return undefined;
+
+      const token = query.tokenAddress || (query.asset === 'SOL' ? NATIVE_SOL_MINT : undefined);
+      if (!token || token === USDC_MINT) return undefined;
+
+      const inUsdc = await priceIn(token, USDC_MINT, query);
+      if (inUsdc !== undefined || token === NATIVE_SOL_MINT) return inUsdc;
+
+      const inSol = await priceIn(token, NATIVE_SOL_MINT, query);
+      if (inSol === undefined) return undefined;
+      const solUsd = await priceIn(NATIVE_SOL_MINT, USDC_MINT, query);
+      return solUsd === undefined ? undefined : inSol * solUsd;
+    },
+  };
+}
+
+// Every pool of the pair across both layouts and mint orders, ranked by the
+// quote balance it holds today
+async function findDeepestPool(rpcUrl: string, token: string, quote: string): Promise<Pool | undefined> {
+  const pools: Pool[] = [];
+
+  for (const layout of POOL_LAYOUTS) {
+    for (const [mintA, mintB] of [[token, quote], [quote, token]]) {
+      const start = Math.min(layout.vaultA, layout.vaultB);
+      const accounts: any[] = await rpcCall(rpcUrl, 'getProgramAccounts', [layout.programId, {
+        encoding: 'base64',
+        dataSlice: { offset: start, length: Math.max(layout.vaultA, layout.vaultB) + 32 - start },
+        filters: [
+          { dataSize: layout.dataSize },
+          { memcmp: { offset: layout.mintA, bytes: mintA } },
+          { memcmp: { offset: layout.mintB, bytes: mintB } },
+        ],
+      }]);
+
+      for (const account of accounts) {
+        const data = Buffer.from(account.account.data[0], 'base64');
+        const vaultA = new PublicKey(data.subarray(layout.vaultA - start, layout.vaultA - start + 32)).toBase58();
+        const vaultB = new PublicKey(data.subarray(layout.vaultB - start, layout.vaultB - start + 32)).toBase58();
+        const tokenIsA = mintA === token;
+
+        pools.push({
+          address: account.pubkey,
+          tokenVault: tokenIsA ? vaultA : vaultB,
+          quoteVault: tokenIsA ? vaultB : vaultA,
+          constantProduct: layout.constantProduct,
+        });
+      }
+    }
+  }
+
+  if (pools.length <= 1) return pools[0];
+
+  const vaults = await rpcCall(rpcUrl, 'getMultipleAccounts', [
+    pools.map(pool => pool.quoteVault),
+    { encoding: 'jsonParsed' },
+  ]);
+  const depth = (i: number) => vaults.value?.[i]?.data?.parsed?.info?.tokenAmount?.uiAmount || 0;
+
+  let deepest = 0;
+  for (let i = 1; i < pools.length; i++) {
+    if (depth(i) > depth(deepest)) deepest = i;
+  }
+  return pools[deepest];
+}
+
+// Quote per token in the pool just before `hash`
+async function poolPrice(rpcUrl: string, pool: Pool, hash: string, timestamp: number): Promise<number | undefined> {
+  // Newest first, starting below `hash`'s slot
+  const signatures: any[] = await rpcCall(rpcUrl, 'getSignaturesForAddress', [
+    pool.address,
+    { before: hash, limit: SIGNATURE_LOOKBACK },
+  ]);
+
+  for (const { signature, err, blockTime } of signatures) {
+    if (blockTime && timestamp - blockTime > MAX_STALENESS) break;
+    if (err) continue;
+
+    const tx = await rpcCall(rpcUrl, 'getTransaction', [
+      signature,
+      { encoding: 'json', maxSupportedTransactionVersion: 0 },
+    ]);
+    if (!tx?.meta) continue;
+
+    const keys: string[] = [
+      ...tx.transaction.message.accountKeys,
+      ...(tx.meta.loadedAddresses?.writable || []),
+      ...(tx.meta.loadedAddresses?.readonly || []),
+    ];
+    const balance = (balances: any[] | undefined, vault: string): number | undefined => {
+      const entry = (balances || []).find(b => keys[b.accountIndex] === vault);
+      return entry ? parseFloat(entry.uiTokenAmount.uiAmountString) : undefined;
+    };
+
+    const tokenAfter = balance(tx.meta.postTokenBalances, pool.tokenVault);
+    const quoteAfter = balance(tx.meta.postTokenBalances, pool.quoteVault);
+    if (tokenAfter === undefined || quoteAfter === undefined) continue;
+
+    if (pool.constantProduct) {
+      if (tokenAfter > 0 && quoteAfter > 0) return quoteAfter / tokenAfter;
+      continue;
+    }
+
+    const tokenBefore = balance(tx.meta.preTokenBalances, pool.tokenVault) ?? 0;
+    const quoteBefore = balance(tx.meta.preTokenBalances, pool.quoteVault) ?? 0;
+    const tokenDelta = tokenAfter - tokenBefore;
+    const quoteDelta = quoteAfter - quoteBefore;
+    // A swap moves the vaults in opposite directions; deposits and
+    // withdrawals move them together
+    if (tokenDelta !== 0 && tokenDelta * quoteDelta < 0) {
+      return Math.abs(quoteDelta / tokenDelta);
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,94 @@
+// Recognises swaps routed through the major Solana DEX programs and pairs
+// the wallet's balance changes into a single sold/bought trade
+
+import type { BalanceChange } from './solana';
+
+export const SOLANA_DEX_PROGRAMS: Record<string, string> = {
+  JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4: 'Jupiter',
+  JUP4Fb2cqiRUcaTHdrPC8h2gNsA2ETXiPDD33WcGuJB: 'Jupiter',
+  '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8': 'Raydium',
+  CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK: 'Raydium',
+  CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C: 'Raydium',
+  whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc: 'Orca',
+  '9W959DqEETiGZocYWCQPaJ6sBmUzgfxXfqGeTEdp3aQP': 'Orca',
+  LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo: 'Meteora',
+  Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB: 'Meteora',
+  PhoeNiXZ8ByJGLkxNfZRnkUfjvmuYqLR89jjFHGqdXY: 'Phoenix',
+  '2wT8Yq49kHgDzXuPxZSaeLaH1qbmGXtEyPy64bL7aD3c': 'Lifinity',
+  opnb2LAfJYbRMAHHvqjCwQxanZn7ReEHp1k81EohpZb: 'OpenBook',
+};
+
+// Below this, a SOL leg next to a token leg is account rent or a rent refund
+// (ATA creation / closing the temporary wSOL account), not part of the trade
+const RENT_THRESHOLD_LAMPORTS = BigInt(10_000_000);
+
+export interface SolanaSwap {
+  dex: string;
+  sold: BalanceChange;
+  bought: BalanceChange;
+  // Changes that aren't part of the trade, e.g. rent paid for a new token account
+  other: BalanceChange[];
+}
+
+export function findDexProgram(tx: any): string | undefined {
+  const instructions: any[] = [
+    ...(tx.transaction?.message?.instructions || []),
+    ...(tx.meta?.innerInstructions || []).flatMap((inner: any) => inner.instructions || []),
+  ];
+
+  for (const ix of instructions) {
+    const dex = SOLANA_DEX_PROGRAMS[ix.programId];
+    if (dex) return dex;
+  }
+  return undefined;
+}
+
+export function decodeSolanaSwap(tx: any, changes: BalanceChange[], nativeMint: string): SolanaSwap | null {
+  const dex = findDexProgram(tx);
+  if (!dex) return null;
+
+  return pairSwapLegs(changes, nativeMint, dex);
+}
+
+// Pairs exactly one outgoing and one incoming asset, setting aside small SOL
+// rent movements. Returns null when the changes don't look like a single trade.
+export function pairSwapLegs(changes: BalanceChange[], nativeMint: string, dex: string): SolanaSwap | null {
+  const legs = mergeWrappedSol(changes, nativeMint);
+  const other: BalanceChange[] = [];
+
+  let outs = legs.filter(leg => leg.amount < BigInt(0));
+  let ins = legs.filter(leg => leg.amount > BigInt(0));
+
+  if (outs.length > 1) {
+    outs = outs.filter(leg => (isRent(leg, nativeMint) ? (other.push(leg), false) : true));
+  }
+  if (ins.length > 1) {
+    ins = ins.filter(leg => (isRent(leg, nativeMint) ? (other.push(leg), false) : true));
+  }
+
+  if (outs.length !== 1 || ins.length !== 1) return null;
+
+  return { dex, sold: outs[0], bought: ins[0], other };
+}
+
+// Jupiter and friends wrap SOL into a temporary wSOL account and unwrap it in
+// the same transaction; for the trade both halves are just SOL.
+function mergeWrappedSol(changes: BalanceChange[], nativeMint: string): BalanceChange[] {
+  const native = changes.filter(change => change.mint === nativeMint);
+  if (native.length < 2) return changes;
+
+  const merged: BalanceChange = {
+    mint: nativeMint,
+    decimals: native[0].decimals,
+    amount: native.reduce((sum, change) => sum + change.amount, BigInt(0)),
+    native: true,
+  };
+
+  const rest = changes.filter(change => change.mint !== nativeMint);
+  return merged.amount === BigInt(0) ? rest : [merged, ...rest];
+}
+
+function isRent(change: BalanceChange, nativeMint: string): boolean {
+  const magnitude = change.amount < BigInt(0) ? -change.amount : change.amount;
+  return change.mint === nativeMint && magnitude < RENT_THRESHOLD_LAMPORTS;
+}
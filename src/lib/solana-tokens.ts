@@ -0,0 +1,160 @@
+// Resolves Solana mint addresses to symbol, name and decimals.
+// Lookup order: bundled token list, disk cache, then on-chain via the mint
+// account (decimals + Token-2022 metadata extension) and the Metaplex
+// metadata account.
+
+import { PublicKey } from '@solana/web3.js';
+import { createDiskCache } from './cache';
+import { rpcCall } from './rpc';
+import { SOLANA_TOKEN_LIST } from './solana-token-list';
+import type { SpotTransaction, TokenMetadata } from './types';
+import { warn } from './warnings';
+
+const METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+// getMultipleAccounts accepts at most 100 keys per call
+const ACCOUNTS_PER_CALL = 100;
+
+const cache = createDiskCache<TokenMetadata>('solana-tokens');
+
+export async function resolveSolanaTokens(
+  mints: string[],
+  rpcUrl: string
+): Promise<Map<string, TokenMetadata>> {
+  const resolved = new Map<string, TokenMetadata>();
+  const missing: string[] = [];
+
+  for (const mint of new Set(mints)) {
+    const known = SOLANA_TOKEN_LIST[mint] || (await cache.get(mint));
+    if (known) {
+      resolved.set(mint, known);
+    } else {
+      missing.push(mint);
+    }
+  }
+
+  for (let i = 0; i < missing.length; i += ACCOUNTS_PER_CALL) {
+    const chunk = missing.slice(i, i + ACCOUNTS_PER_CALL);
+    try {
+      const fetched = await fetchOnChainMetadata(chunk, rpcUrl);
+      for (const [mint, metadata] of fetched) {
+        resolved.set(mint, metadata);
+        await cache.set(mint, metadata);
+      }
+    } catch (err) {
+      warn('Failed to resolve Solana token metadata:', err);
+    }
+  }
+
+  await cache.flush();
+  return resolved;
+}
+
+// Replaces raw mint addresses in `asset`/`received_asset` with token symbols
+export async function resolveSolanaAssets(
+  rows: SpotTransaction[],
+  rpcUrl: string
+): Promise<SpotTransaction[]> {
+  const mints = rows.flatMap(row =>
+    [row.token_address, row.received_token_address].filter((mint): mint is string => !!mint)
+  );
+  if (mints.length === 0) return rows;
+
+  const metadata = await resolveSolanaTokens(mints, rpcUrl);
+
+  return rows.map(row => ({
+    ...row,
+    asset: row.token_address ? metadata.get(row.token_address)?.symbol || shortMint(row.token_address) : row.asset,
+    asset_name: row.token_address ? metadata.get(row.token_address)?.name : row.asset_name,
+    received_asset: row.received_token_address
+      ? metadata.get(row.received_token_address)?.symbol || shortMint(row.received_token_address)
+      : row.received_asset,
+  }));
+}
+
+async function fetchOnChainMetadata(mints: string[], rpcUrl: string): Promise<Map<string, TokenMetadata>> {
+  const result = new Map<string, TokenMetadata>();
+
+  const mintAccounts = await rpcCall<{ value: any[] }>(rpcUrl, 'getMultipleAccounts', [
+    mints,
+    { encoding: 'jsonParsed' },
+  ]);
+
+  const needsMetaplex: { mint: string; decimals: number; pda: string }[] = [];
+
+  mints.forEach((mint, i) => {
+    const info = mintAccounts.value?.[i]?.data?.parsed?.info;
+    if (!info || typeof info.decimals !== 'number') return;
+
+    // Token-2022 mints can carry their metadata inline
+    const extension = (info.extensions || []).find((ext: any) => ext.extension === 'tokenMetadata');
+    if (extension?.state?.symbol) {
+      result.set(mint, {
+        symbol: extension.state.symbol,
+        name: extension.state.name || extension.state.symbol,
+        decimals: info.decimals,
+      });
+      return;
+    }
+
+    const pda = metadataAddress(mint);
+    if (pda) {
+      needsMetaplex.push({ mint, decimals: info.decimals, pda });
+    }
+  });
+
+  if (needsMetaplex.length === 0) return result;
+
+  const metadataAccounts = await rpcCall<{ value: any[] }>(rpcUrl, 'getMultipleAccounts', [
+    needsMetaplex.map(entry => entry.pda),
+    { encoding: 'base64' },
+  ]);
+
+  needsMetaplex.forEach((entry, i) => {
+    const data = metadataAccounts.value?.[i]?.data?.[0];
+    const decoded = data ? decodeMetaplexMetadata(Buffer.from(data, 'base64')) : null;
+    if (decoded?.symbol) {
+      result.set(entry.mint, { ...decoded, decimals: entry.decimals });
+    }
+  });
+
+  return result;
+}
+
+function metadataAddress(mint: string): string | null {
+  try {
+    const [pda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('metadata'), METADATA_PROGRAM_ID.toBuffer(), new PublicKey(mint).toBuffer()],
+      METADATA_PROGRAM_ID
+    );
+    return pda.toBase58();
+  } catch {
+    return null;
+  }
+}
+
+// Metaplex Metadata layout: key (u8), update authority (32), mint (32),
+// then borsh strings name and symbol, zero-padded to fixed widths
+function decodeMetaplexMetadata(data: Buffer): { name: string; symbol: string } | null {
+  try {
+    let offset = 1 + 32 + 32;
+
+    const readString = () => {
+      const length = data.readUInt32LE(offset);
+      offset += 4;
+      const value = data.subarray(offset, offset + length).toString('utf8');
+      offset += length;
+      return value.replace(/\0/g, '').trim();
+    };
+
+    const name = readString();
+    const symbol = readString();
+    return { name, symbol };
+  } catch {
+    return null;
+  }
+}
+
+// Last resort when nothing is known about a mint: EPjF…Dt1v
+function shortMint(mint: string): string {
+  return `${mint.slice(0, 4)}…${mint.slice(-4)}`;
+}
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchSolanaTransactions } from './solana';
+import { stubRpc } from './test-fetch';
+
+const WALLET = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+const POOL_AUTHORITY = '5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const SIGNATURE = '4mZ1kqyS1uYbYp6bnSddSRcGgK3AkfWZbSNmYhVUzQ7JxJYxHkpLtLHdpNWnjJv8TbHqGkmUR3xt2yzyS2x6Jz4x';
+const SLIPPAGE_EXCEEDED = { InstructionError: [3, { Custom: 6001 }] };
+
+const tokenBalance = (accountIndex: number, owner: string, amount: string) => ({
+  accountIndex,
+  mint: USDC_MINT,
+  owner,
+  programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  uiTokenAmount: { amount, decimals: 6, uiAmount: Number(amount) / 1e6, uiAmountString: String(Number(amount) / 1e6) },
+});
+
+// A swap that hit its slippage limit. Its balances show the attempted SOL ->
+// USDC trade so the test proves the error wins over them; on chain only the
+// fee was charged.
+const failedSwap = {
+  slot: 250_000_000,
+  blockTime: 1_700_000_000,
+  transaction: {
+    signatures: [SIGNATURE],
+    message: {
+      accountKeys: [
+        { pubkey: WALLET, signer: true, writable: true },
+        { pubkey: POOL_AUTHORITY, signer: false, writable: false },
+      ],
+      instructions: [],
+    },
+  },
+  meta: {
+    err: SLIPPAGE_EXCEEDED,
+    fee: 105000,
+    preBalances: [2_000_000_000, 1],
+    postBalances: [1_499_895_000, 1],
+    preTokenBalances: [tokenBalance(2, WALLET, '0')],
+    postTokenBalances: [tokenBalance(2, WALLET, '75000000')],
+    innerInstructions: [],
+    logMessages: [],
+  },
+};
+
+function stubSolana() {
+  stubRpc(method => {
+    if (method === 'getSignaturesForAddress') {
+      return [{ signature: SIGNATURE, slot: failedSwap.slot, blockTime: failedSwap.blockTime, err: SLIPPAGE_EXCEEDED }];
+    }
+    if (method === 'getParsedTransaction') return failedSwap;
+    throw new Error(`Unexpected ${method}`);
+  });
+}
+
+describe('fetchSolanaTransactions', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports a failed transaction as its fee only', async () => {
+    stubSolana();
+
+    const rows = await fetchSolanaTransactions(WALLET, 'https://solana-rpc.example');
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ side: 'FEE', asset: 'SOL', quantity: 0, fees: 0.000105, hash: SIGNATURE });
+  });
+});
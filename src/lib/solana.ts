@@ -0,0 +1,270 @@
+// Solana spot history via the public JSON-RPC API
+
+import { rpcBatch, rpcCall } from './rpc';
+import { decodeSolanaSwap, type SolanaSwap } from './solana-swaps';
+import { resolveSolanaAssets } from './solana-tokens';
+import type { DateRange, SpotTransaction } from './types';
+import { warn } from './warnings';
+
+// getSignaturesForAddress caps a page at 1000 entries
+const SIGNATURE_PAGE_SIZE = 1000;
+const TRANSACTION_BATCH_SIZE = 25;
+
+export interface SolanaFetchOptions extends DateRange {
+  // Stop once this signature is reached (exclusive), e.g. the newest one from a previous sync
+  until?: string;
+}
+
+export const NATIVE_SOL_MINT = 'So11111111111111111111111111111111111111112';
+export const SOL_DECIMALS = 9;
+
+interface SignatureInfo {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  err: unknown;
+}
+
+export interface BalanceChange {
+  mint: string;
+  decimals: number;
+  // Raw base units, positive when the wallet received
+  amount: bigint;
+  // Token program (SPL Token or Token-2022) when known
+  programId?: string;
+  // Lamport balance rather than a token account; wrapped SOL shares the
+  // native mint but is a regular token balance
+  native?: boolean;
+}
+
+export async function fetchSolanaTransactions(
+  wallet: string,
+  rpcUrl: string,
+  options: SolanaFetchOptions = {}
+): Promise<SpotTransaction[]> {
+  const signatures = await fetchSignatures(wallet, rpcUrl, options);
+  const transactions: SpotTransaction[] = [];
+
+  for (let i = 0; i < signatures.length; i += TRANSACTION_BATCH_SIZE) {
+    const chunk = signatures.slice(i, i + TRANSACTION_BATCH_SIZE);
+    const parsed = await rpcBatch(
+      rpcUrl,
+      chunk.map(sig => ({
+        method: 'getParsedTransaction',
+        params: [sig.signature, { maxSupportedTransactionVersion: 0 }],
+      }))
+    );
+
+    chunk.forEach((sig, j) => {
+      const tx = parsed[j];
+      if (!tx) {
+        warn(`Failed to fetch tx ${sig.signature}`);
+        return;
+      }
+
+      try {
+        transactions.push(...parseSolanaTransaction(tx, sig.signature, wallet, sig.err != null));
+      } catch (err) {
+        warn(`Failed to parse tx ${sig.signature}:`, err);
+      }
+    });
+  }
+
+  const resolved = await resolveSolanaAssets(transactions, rpcUrl);
+
+  return resolved.sort((a, b) => 
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
+// Walks the wallet's signature history newest-first using the `before` cursor
+// until the history is exhausted, `until` is hit, or we pass `from`.
+async function fetchSignatures(
+  wallet: string,
+  rpcUrl: string,
+  options: SolanaFetchOptions
+): Promise<SignatureInfo[]> {
+  const signatures: SignatureInfo[] = [];
+  let before: string | undefined;
+
+  while (true) {
+    const page = await rpcCall<SignatureInfo[]>(rpcUrl, 'getSignaturesForAddress', [
+      wallet,
+      { limit: SIGNATURE_PAGE_SIZE, before, until: options.until },
+    ]);
+
+    if (!page || page.length === 0) break;
+
+    for (const sig of page) {
+      if (sig.blockTime != null) {
+        if (options.from !== undefined && sig.blockTime < options.from) return signatures;
+        if (options.to !== undefined && sig.blockTime > options.to) continue;
+      }
+      signatures.push(sig);
+    }
+
+    if (page.length < SIGNATURE_PAGE_SIZE) break;
+    before = page[page.length - 1].signature;
+  }
+
+  return signatures;
+}
+
+function parseSolanaTransaction(tx: any, signature: string, wallet: string, failed: boolean): SpotTransaction[] {
+  const timestamp = tx.blockTime 
+    ? new Date(tx.blockTime * 1000).toISOString() 
+    : new Date().toISOString();
+
+  const accountKeys: any[] = tx.transaction?.message?.accountKeys || [];
+  const walletIndex = accountKeys.findIndex(key => (key.pubkey ?? key) === wallet);
+  // The fee is always charged to account 0, the fee payer
+  const paidFee = walletIndex === 0 ? tx.meta?.fee || 0 : 0;
+  const context = { timestamp, signature, fee: paidFee / 10 ** SOL_DECIMALS };
+
+  // A failed transaction only charged its fee; its instructions moved nothing
+  if (failed || tx.meta?.err != null) return buildSolanaRows([], null, context);
+
+  const changes: BalanceChange[] = [];
+
+  if (walletIndex >= 0) {
+    const preBalances = tx.meta?.preBalances || [];
+    const postBalances = tx.meta?.postBalances || [];
+    // Add the fee back so it shows up in `fees` rather than as a SOL disposal
+    const lamports = BigInt(postBalances[walletIndex] ?? 0) - BigInt(preBalances[walletIndex] ?? 0) + BigInt(paidFee);
+    if (lamports !== BigInt(0)) {
+      changes.push({ mint: NATIVE_SOL_MINT, decimals: SOL_DECIMALS, amount: lamports, native: true });
+    }
+  }
+
+  changes.push(...diffTokenBalances(tx.meta, wallet));
+
+  return buildSolanaRows(changes, decodeSolanaSwap(tx, changes, NATIVE_SOL_MINT), context);
+}
+
+export interface SolanaRowContext {
+  timestamp: string;
+  signature: string;
+  // Network fee in SOL paid by the wallet, 0 if someone else paid
+  fee: number;
+  // Side for movements that aren't part of a swap; defaults to BUY/SELL
+  sideOf?: (change: BalanceChange) => string;
+}
+
+// Turns the wallet's net balance changes for one transaction into spot rows:
+// one SWAP row when a trade was decoded, one row per remaining change, or a
+// bare FEE row when the wallet only paid for the transaction.
+export function buildSolanaRows(
+  changes: BalanceChange[],
+  swap: SolanaSwap | null,
+  context: SolanaRowContext
+): SpotTransaction[] {
+  const { timestamp, signature, fee } = context;
+  const sideOf = context.sideOf || (change => (change.amount > BigInt(0) ? 'BUY' : 'SELL'));
+
+  if (changes.length === 0) {
+    if (!fee) return [];
+    return [{
+      timestamp,
+      asset: 'SOL',
+      side: 'FEE',
+      quantity: 0,
+      price: 0,
+      total: 0,
+      fees: fee,
+      hash: signature,
+      chain: 'solana',
+    }];
+  }
+
+  const rows: SpotTransaction[] = [];
+  const remaining = swap ? swap.other : changes;
+
+  if (swap) {
+    const quantity = toQuantity(swap.sold);
+    const receivedQuantity = toQuantity(swap.bought);
+
+    rows.push({
+      timestamp,
+      asset: assetLabel(swap.sold),
+      side: 'SWAP',
+      quantity,
+      price: 0,
+      total: 0,
+      fees: fee,
+      hash: signature,
+      chain: 'solana',
+      token_address: tokenAddress(swap.sold),
+      received_asset: assetLabel(swap.bought),
+      received_quantity: receivedQuantity,
+      received_token_address: tokenAddress(swap.bought),
+      implied_price: quantity > 0 ? receivedQuantity / quantity : undefined,
+      venue: swap.dex,
+    });
+  }
+
+  for (const change of remaining) {
+    const quantity = toQuantity(change);
+
+    rows.push({
+      timestamp,
+      asset: assetLabel(change),
+      side: sideOf(change),
+      quantity,
+      price: 0,
+      total: 0,
+      // Attach the network fee to a single row so totals don't double count it
+      fees: rows.length === 0 ? fee : 0,
+      hash: signature,
+      chain: 'solana',
+      token_address: tokenAddress(change),
+    });
+  }
+
+  return rows;
+}
+
+function assetLabel(change: BalanceChange): string {
+  return change.native ? 'SOL' : change.mint;
+}
+
+function tokenAddress(change: BalanceChange): string | undefined {
+  return change.native ? undefined : change.mint;
+}
+
+function toQuantity(change: BalanceChange): number {
+  return Math.abs(toUiAmount(change.amount, change.decimals));
+}
+
+// Net per-mint change across every token account the wallet owns. Token-2022
+// balances are reported in the same arrays, tagged with their own programId.
+function diffTokenBalances(meta: any, wallet: string): BalanceChange[] {
+  const byMint = new Map<string, BalanceChange>();
+
+  const apply = (balances: any[] | undefined, sign: 1 | -1) => {
+    for (const balance of balances || []) {
+      if (balance.owner !== wallet) continue;
+
+      const raw = BigInt(balance.uiTokenAmount?.amount || '0');
+      const existing = byMint.get(balance.mint);
+      if (existing) {
+        existing.amount += sign === 1 ? raw : -raw;
+      } else {
+        byMint.set(balance.mint, {
+          mint: balance.mint,
+          decimals: balance.uiTokenAmount?.decimals ?? 0,
+          amount: sign === 1 ? raw : -raw,
+          programId: balance.programId,
+        });
+      }
+    }
+  };
+
+  apply(meta?.preTokenBalances, -1);
+  apply(meta?.postTokenBalances, 1);
+
+  return Array.from(byMint.values()).filter(change => change.amount !== BigInt(0));
+}
+
+function toUiAmount(amount: bigint, decimals: number): number {
+  return Number(amount) / 10 ** decimals;
+}
@@ -0,0 +1,123 @@
+import type { ApiPromise } from '@polkadot/api';
+import { TypeRegistry } from '@polkadot/types';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readSubstrateHistory } from './substrate';
+import { collectWarnings } from './warnings';
+
+// Alice and Bob of the dev chains
+const WALLET = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+const OTHER = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty';
+const GENESIS_MS = 1_735_689_600_000;
+
+const registry = new TypeRegistry();
+const accountId = (address: string) => registry.createType('AccountId', address);
+const planck = (dot: number) => registry.createType('u128', Math.round(dot * 1e10));
+
+interface RecordedEvent {
+  section: string;
+  method: string;
+  data: unknown[];
+  // Index of the extrinsic that emitted it; absent for block-level events
+  extrinsic?: number;
+}
+
+const blockHash = (block: number) => `0x${block.toString(16).padStart(64, '0')}`;
+const blockOf = (hash: string) => parseInt(hash, 16);
+
+// Just the calls the adapter makes, answering from recorded System.Events
+// per block; blocks are six seconds apart. `queryStorage` is the
+// state_queryStorage change sets, or undefined on a node without the method.
+function recordedApi(events: Record<number, RecordedEvent[]>, latest: number, queryStorage?: number[]) {
+  const header = (block: number) => ({ number: { toNumber: () => block } });
+
+  const api = {
+    registry: {
+      createType: (type: string, value: string) => registry.createType(type, value),
+      chainTokens: ['DOT'],
+      chainDecimals: [10],
+    },
+    query: { system: { account: { key: () => '0x26aa394eea5630e07c48ae0c9558cef7' } } },
+    rpc: {
+      chain: {
+        getHeader: async (hash?: string) => header(hash ? blockOf(hash) : latest),
+        getBlockHash: async (block: number) => blockHash(block),
+        getBlock: async (hash: string) => ({
+          block: { extrinsics: [0, 1, 2].map(index => ({ hash: { toHex: () => `${hash}-${index}` } })) },
+        }),
+      },
+      state: {
+        queryStorage: async (_keys: string[], from: string, to: string) => {
+          if (!queryStorage) throw new Error('RPC call is unsafe to be called externally');
+          // The starting value, then one set per block the account changed in
+          const changed = queryStorage.filter(block => block > blockOf(from) && block <= blockOf(to));
+          return [from, ...changed.map(blockHash)].map(hash => [hash, [['0x26aa', '0x00']]]);
+        },
+      },
+    },
+    at: async (hash: string) => ({
+      query: {
+        system: {
+          events: async () => (events[blockOf(hash)] || []).map(({ section, method, data, extrinsic }) => ({
+            event: { section, method, data },
+            phase: {
+              isApplyExtrinsic: extrinsic !== undefined,
+              asApplyExtrinsic: { toNumber: () => extrinsic },
+            },
+          })),
+        },
+        timestamp: { now: async () => GENESIS_MS + blockOf(hash) * 6000 },
+      },
+    }),
+  };
+
+  return api as unknown as ApiPromise;
+}
+
+const transferIn = { section: 'balances', method: 'Transfer', data: [accountId(OTHER), accountId(WALLET), planck(5)], extrinsic: 1 };
+
+describe('readSubstrateHistory', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reads the events of the blocks state_queryStorage reports the account changed in', async () => {
+    const api = recordedApi({
+      105: [transferIn],
+      120: [
+        { section: 'balances', method: 'Transfer', data: [accountId(WALLET), accountId(OTHER), planck(2)], extrinsic: 0 },
+        { section: 'transactionPayment', method: 'TransactionFeePaid', data: [accountId(WALLET), planck(0.0156), planck(0)], extrinsic: 0 },
+        // Paid out at the era boundary, outside any extrinsic
+        { section: 'staking', method: 'Rewarded', data: [accountId(WALLET), registry.createType('u8', 0), planck(1.5)] },
+      ],
+      // Someone else's transfer in a block the wallet also changed in
+      130: [{ section: 'balances', method: 'Transfer', data: [accountId(OTHER), accountId(OTHER), planck(9)], extrinsic: 0 }],
+    }, 200, [105, 120, 130]);
+
+    const rows = await readSubstrateHistory(api, WALLET, 'polkadot', { fromBlock: 100, toBlock: 200 });
+
+    expect(rows).toHaveLength(3);
+    expect(rows.find(row => row.side === 'REWARD')).toMatchObject({ asset: 'DOT', quantity: 1.5, hash: '120-2' });
+    // The fee folds into the transfer it paid for
+    expect(rows.find(row => row.side === 'SELL')).toMatchObject({ quantity: 2, fees: 0.0156, hash: `${blockHash(120)}-0` });
+    expect(rows.find(row => row.side === 'BUY')).toMatchObject({
+      quantity: 5,
+      timestamp: new Date(GENESIS_MS + 105 * 6000).toISOString(),
+    });
+  });
+
+  it('scans only the newest blocks of a long range without state_queryStorage, with a warning', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const api = recordedApi({
+      5_000: [transferIn],
+      59_000: [transferIn],
+    }, 60_000);
+
+    const { result: rows, warnings } = await collectWarnings(() =>
+      readSubstrateHistory(api, WALLET, 'polkadot', { fromBlock: 1, toBlock: 60_000 })
+    );
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].timestamp).toBe(new Date(GENESIS_MS + 59_000 * 6000).toISOString());
+    expect(warnings).toEqual([expect.stringContaining('only the last 50000 blocks (from #10001)')]);
+  });
+});
@@ -0,0 +1,335 @@
+// Substrate spot history (Polkadot, Bittensor) from block events.
+//
+// Substrate has no "transactions by address" RPC, so we first find the blocks
+// in which the wallet's System.Account entry changed (state_queryStorage) and
+// only read events for those. Nodes that don't expose that unsafe method get
+// a full per-block event scan, which only covers the newest blocks of a long
+// range. Point
+// POLKADOT_RPC_URL / BITTENSOR_RPC_URL at a local dev node
+// (ws://127.0.0.1:9944) to test.
+
+import { ApiPromise, HttpProvider, WsProvider } from '@polkadot/api';
+import type { Vec } from '@polkadot/types';
+import type { EventRecord } from '@polkadot/types/interfaces';
+import type { Codec } from '@polkadot/types/types';
+import { CHAIN_NATIVE_ASSET } from './chains';
+import type { DateRange, SpotTransaction } from './types';
+import { warn } from './warnings';
+
+// Blocks per state_queryStorage call
+const STORAGE_QUERY_RANGE = 1_000;
+// Parallel block reads when scanning
+const BLOCK_CONCURRENCY = 20;
+// ~3.5 days of 6s blocks; reading every block of a longer range means
+// hundreds of thousands of calls
+const MAX_SCAN_BLOCKS = 50_000;
+// Window used when the caller gives neither a start block nor a date, as on EVM
+const DEFAULT_LOOKBACK_SECONDS = 365 * 24 * 60 * 60;
+// WsProvider reconnects forever on its own; give up on a dead endpoint
+const CONNECT_TIMEOUT_MS = 30_000;
+const REQUEST_TIMEOUT_MS = 60_000;
+
+export interface SubstrateFetchOptions extends DateRange {
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+// Everything an event handler needs to emit rows for one block
+export interface SubstrateEventContext {
+  api: ApiPromise;
+  chain: string;
+  // Hex public key of the wallet, for comparing against AccountId fields
+  walletHex: string;
+  asset: string;
+  decimals: number;
+  timestamp: string;
+  // Extrinsic hash the event belongs to, or `${block}-${eventIndex}` for system events
+  hash: string;
+}
+
+export type SubstrateEventHandler = (data: Codec[], context: SubstrateEventContext) => SpotTransaction[];
+
+const EVENT_HANDLERS: Record<string, SubstrateEventHandler> = {
+  'balances.Transfer': ([from, to, amount], ctx) => {
+    const isSender = from.toHex() === ctx.walletHex;
+    if (!isSender && to.toHex() !== ctx.walletHex) return [];
+    return [nativeRow(ctx, isSender ? 'SELL' : 'BUY', amount)];
+  },
+
+  // Rewarded(stash, dest, amount) on current runtimes, Rewarded/Reward(stash, amount) before
+  'staking.Rewarded': (data, ctx) => {
+    if (data[0].toHex() !== ctx.walletHex) return [];
+    return [nativeRow(ctx, 'REWARD', data[data.length - 1])];
+  },
+  'staking.Reward': ([stash, amount], ctx) => {
+    if (stash.toHex() !== ctx.walletHex) return [];
+    return [nativeRow(ctx, 'REWARD', amount)];
+  },
+
+  // actualFee already includes the tip
+  'transactionPayment.TransactionFeePaid': ([who, actualFee], ctx) => {
+    if (who.toHex() !== ctx.walletHex) return [];
+    return [{ ...nativeRow(ctx, 'FEE', 0), fees: toUnits(actualFee, ctx.decimals) }];
+  },
+};
+
+// Chain-specific behaviour layered over the common balances/staking handling
+export interface SubstrateExtension {
+  handlers?: Record<string, SubstrateEventHandler>;
+  // Rows derived from chain state rather than events (e.g. staking emissions),
+  // given the event rows already collected for the range
+  collect?: (
+    context: Omit<SubstrateEventContext, 'timestamp' | 'hash'>,
+    fromBlock: number,
+    toBlock: number,
+    rows: SpotTransaction[]
+  ) => Promise<SpotTransaction[]>;
+}
+
+export async function fetchSubstrateTransactions(
+  wallet: string,
+  chain: string,
+  rpcUrl: string,
+  options: SubstrateFetchOptions = {},
+  extension: SubstrateExtension = {}
+): Promise<SpotTransaction[]> {
+  const api = await connect(rpcUrl, chain);
+
+  try {
+    return await readSubstrateHistory(api, wallet, chain, options, extension);
+  } finally {
+    await api.disconnect();
+  }
+}
+
+// The history itself, over an already connected API
+export async function readSubstrateHistory(
+  api: ApiPromise,
+  wallet: string,
+  chain: string,
+  options: SubstrateFetchOptions = {},
+  extension: SubstrateExtension = {}
+): Promise<SpotTransaction[]> {
+  // Throws on an invalid SS58 address; any network prefix is accepted
+  const walletHex = api.registry.createType('AccountId', wallet).toHex();
+  const { fromBlock: requestedFrom, toBlock } = await resolveBlockRange(api, options);
+  if (requestedFrom > toBlock) return [];
+
+  let fromBlock = requestedFrom;
+  let blocks: number[];
+  try {
+    blocks = await findAccountChanges(api, wallet, fromBlock, toBlock);
+  } catch (err) {
+    // Reading every block of a long range would take hours; keep the newest
+    // ones and say what's missing
+    if (toBlock - fromBlock + 1 > MAX_SCAN_BLOCKS) {
+      fromBlock = toBlock - MAX_SCAN_BLOCKS + 1;
+      warn(
+        `state_queryStorage unavailable on ${chain}; only the last ${MAX_SCAN_BLOCKS} blocks (from #${fromBlock}) ` +
+        `were scanned, so earlier history is missing. Use a node that exposes it or a shorter date range:`,
+        err
+      );
+    } else {
+      warn(`state_queryStorage unavailable on ${chain}, scanning every block:`, err);
+    }
+    blocks = range(fromBlock, toBlock);
+  }
+
+  const handlers = { ...EVENT_HANDLERS, ...extension.handlers };
+  const base = {
+    api,
+    chain,
+    walletHex,
+    asset: api.registry.chainTokens[0] || CHAIN_NATIVE_ASSET[chain],
+    decimals: api.registry.chainDecimals[0] ?? 10,
+  };
+
+  const transactions: SpotTransaction[] = [];
+  for (let i = 0; i < blocks.length; i += BLOCK_CONCURRENCY) {
+    const chunk = blocks.slice(i, i + BLOCK_CONCURRENCY);
+    const rows = await Promise.all(chunk.map(block => readBlock(api, block, handlers, base)));
+    transactions.push(...rows.flat());
+  }
+
+  if (extension.collect) {
+    transactions.push(...(await extension.collect(base, fromBlock, toBlock, transactions)));
+  }
+
+  return transactions.sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
+async function connect(rpcUrl: string, chain: string): Promise<ApiPromise> {
+  const provider = rpcUrl.startsWith('ws')
+    ? new WsProvider(rpcUrl, undefined, undefined, REQUEST_TIMEOUT_MS)
+    : new HttpProvider(rpcUrl);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Could not connect to the ${chain} node at ${rpcUrl} within ${CONNECT_TIMEOUT_MS / 1000}s`)),
+      CONNECT_TIMEOUT_MS
+    );
+  });
+
+  try {
+    return await Promise.race([ApiPromise.create({ provider, noInitWarn: true, throwOnConnect: true }), timeout]);
+  } catch (err) {
+    // Stops the reconnect loop
+    await provider.disconnect().catch(() => undefined);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function readBlock(
+  api: ApiPromise,
+  blockNumber: number,
+  handlers: Record<string, SubstrateEventHandler>,
+  base: Omit<SubstrateEventContext, 'timestamp' | 'hash'>
+): Promise<SpotTransaction[]> {
+  const blockHash = await api.rpc.chain.getBlockHash(blockNumber);
+  const at = await api.at(blockHash);
+  const [events, now, block] = await Promise.all([
+    at.query.system.events<Vec<EventRecord>>(),
+    at.query.timestamp.now(),
+    api.rpc.chain.getBlock(blockHash),
+  ]);
+
+  const timestamp = new Date(Number(now.toString())).toISOString();
+  const extrinsics = block.block.extrinsics;
+  const rows: SpotTransaction[] = [];
+
+  events.forEach(({ event, phase }, index) => {
+    const handler = handlers[`${event.section}.${event.method}`];
+    if (!handler) return;
+
+    const hash = phase.isApplyExtrinsic
+      ? extrinsics[phase.asApplyExtrinsic.toNumber()].hash.toHex()
+      : `${blockNumber}-${index}`;
+
+    rows.push(...handler(Array.from(event.data), { ...base, timestamp, hash }));
+  });
+
+  return mergeFees(rows);
+}
+
+// Fold FEE rows into another row of the same extrinsic so the fee isn't
+// reported twice or as a standalone disposal
+function mergeFees(rows: SpotTransaction[]): SpotTransaction[] {
+  const merged: SpotTransaction[] = [];
+  const fees = rows.filter(row => row.side === 'FEE');
+
+  for (const row of rows) {
+    if (row.side !== 'FEE') merged.push(row);
+  }
+
+  for (const fee of fees) {
+    const target = merged.find(row => row.hash === fee.hash);
+    if (target) {
+      target.fees += fee.fees;
+    } else {
+      merged.push(fee);
+    }
+  }
+
+  return merged;
+}
+
+// Block numbers in [fromBlock, toBlock] where the wallet's account data
+// (balances, nonce) changed
+async function findAccountChanges(
+  api: ApiPromise,
+  wallet: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<number[]> {
+  const key = api.query.system.account.key(wallet);
+  const blocks: number[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += STORAGE_QUERY_RANGE) {
+    const end = Math.min(start + STORAGE_QUERY_RANGE - 1, toBlock);
+    // Query from the block before so a change *at* `start` shows up as a change
+    const [previousHash, endHash] = await Promise.all([
+      api.rpc.chain.getBlockHash(Math.max(0, start - 1)),
+      api.rpc.chain.getBlockHash(end),
+    ]);
+
+    const changeSets = await api.rpc.state.queryStorage([key], previousHash, endHash);
+    // The first set is always the starting value, not a change
+    for (const [blockHash] of changeSets.slice(1)) {
+      const header = await api.rpc.chain.getHeader(blockHash);
+      blocks.push(header.number.toNumber());
+    }
+  }
+
+  return blocks;
+}
+
+async function resolveBlockRange(
+  api: ApiPromise,
+  options: SubstrateFetchOptions
+): Promise<{ fromBlock: number; toBlock: number }> {
+  const latest = (await api.rpc.chain.getHeader()).number.toNumber();
+
+  let fromBlock = options.fromBlock;
+  if (fromBlock === undefined) {
+    const from = options.from ?? Math.floor(Date.now() / 1000) - DEFAULT_LOOKBACK_SECONDS;
+    fromBlock = await findBlockByTimestamp(api, from, latest);
+  }
+
+  let toBlock = options.toBlock ?? latest;
+  if (options.toBlock === undefined && options.to !== undefined) {
+    toBlock = (await findBlockByTimestamp(api, options.to + 1, latest)) - 1;
+  }
+
+  return { fromBlock, toBlock: Math.min(toBlock, latest) };
+}
+
+// First block whose Timestamp.now is >= `timestamp` (unix seconds)
+async function findBlockByTimestamp(api: ApiPromise, timestamp: number, latest: number): Promise<number> {
+  const blockTime = async (blockNumber: number) => {
+    const at = await api.at(await api.rpc.chain.getBlockHash(blockNumber));
+    return Number((await at.query.timestamp.now()).toString()) / 1000;
+  };
+
+  // Genesis has no timestamp set
+  let low = 1;
+  let high = latest;
+  if ((await blockTime(latest)) < timestamp) return latest + 1;
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((await blockTime(mid)) < timestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+}
+
+export function nativeRow(ctx: SubstrateEventContext, side: string, amount: Codec | number): SpotTransaction {
+  return {
+    timestamp: ctx.timestamp,
+    asset: ctx.asset,
+    side,
+    quantity: toUnits(amount, ctx.decimals),
+    price: 0,
+    total: 0,
+    fees: 0,
+    hash: ctx.hash,
+    chain: ctx.chain,
+  };
+}
+
+export function toUnits(amount: Codec | number, decimals: number): number {
+  return Number(BigInt(amount.toString())) / 10 ** decimals;
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
@@ -0,0 +1,161 @@
+import { decodeFunctionData, encodeAbiParameters, encodeEventTopics, encodeFunctionResult, parseAbi } from 'viem';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchSynthetixTransactions } from './synthetix';
+import { RpcFixtureError, stubRpc } from './test-fetch';
+import { collectWarnings } from './warnings';
+
+const PROXY = '0x0a2af931effd34b81ebcc57e3d3c9b1e1de1c9ce';
+const WALLET = '0x1234567890abcdef1234567890abcdef12345678';
+const ACCOUNT = BigInt('170141183460469231731687303715884105766');
+const ETH_MARKET = BigInt(100);
+const LATEST_BLOCK = 100;
+const GENESIS_TIME = 1_735_689_600;
+
+const PERPS_ABI = parseAbi([
+  'event AccountCreated(uint128 indexed accountId, address indexed owner)',
+  'event OrderSettled(uint128 indexed marketId, uint128 indexed accountId, uint256 fillPrice, int256 pnl, int256 accruedFunding, int128 sizeDelta, int128 newSize, uint256 totalFees, uint256 referralFees, uint256 collectedFees, uint256 settlementReward, bytes32 indexed trackingCode, address settler)',
+  'event PositionLiquidated(uint128 indexed accountId, uint128 indexed marketId, uint256 amountLiquidated, int128 currentPositionSize)',
+  'event CollateralModified(uint128 indexed accountId, uint128 indexed collateralId, int256 amountDelta, address indexed sender)',
+  'function metadata(uint128 marketId) view returns (string name, string symbol)',
+  'function indexPrice(uint128 marketId) view returns (uint256)',
+]);
+
+// 18-decimal fixed point
+const fixed = (value: number) => BigInt(Math.round(value * 1e6)) * BigInt(10) ** BigInt(12);
+
+// A log as eth_getLogs returns it: indexed args in the topics, the rest ABI-encoded
+function eventLog(eventName: string, args: Record<string, unknown>, block: number) {
+  const event = PERPS_ABI.find(item => item.type === 'event' && item.name === eventName) as any;
+  const data = event.inputs.filter((input: any) => !input.indexed);
+
+  return {
+    address: PROXY,
+    topics: encodeEventTopics({ abi: PERPS_ABI, eventName, args } as any) as string[],
+    data: encodeAbiParameters(data, data.map((input: any) => args[input.name])),
+    blockNumber: `0x${block.toString(16)}`,
+    blockHash: `0x${block.toString(16).padStart(64, '0')}`,
+    transactionHash: `0x${'ab'.repeat(31)}${block.toString(16).padStart(2, '0')}`,
+    logIndex: '0x0',
+  };
+}
+
+const orderSettled = (block: number, fillPrice: number, sizeDelta: number, newSize: number, fees: number, accruedFunding = 0) =>
+  eventLog('OrderSettled', {
+    marketId: ETH_MARKET,
+    accountId: ACCOUNT,
+    fillPrice: fixed(fillPrice),
+    pnl: BigInt(0),
+    accruedFunding: fixed(accruedFunding),
+    sizeDelta: fixed(sizeDelta),
+    newSize: fixed(newSize),
+    totalFees: fixed(fees),
+    referralFees: BigInt(0),
+    collectedFees: fixed(fees),
+    settlementReward: BigInt(0),
+    trackingCode: `0x${'00'.repeat(32)}`,
+    settler: WALLET,
+  }, block);
+
+// Serves `logs` through eth_getLogs filters, block times two seconds apart
+// and the proxy's view calls
+function stubBase(logs: ReturnType<typeof eventLog>[], indexPrice = 0) {
+  const matches = (topic: string, wanted: string | string[] | null) =>
+    wanted === null || (Array.isArray(wanted) ? wanted.includes(topic) : wanted === topic);
+
+  return stubRpc((method, params) => {
+    switch (method) {
+      case 'eth_blockNumber':
+        return `0x${LATEST_BLOCK.toString(16)}`;
+      case 'eth_getBlockByNumber':
+        return { timestamp: `0x${(GENESIS_TIME + parseInt(params[0], 16) * 2).toString(16)}` };
+      case 'eth_getLogs': {
+        const [{ topics, fromBlock, toBlock }] = params;
+        return logs.filter(log => {
+          const block = parseInt(log.blockNumber, 16);
+          return block >= parseInt(fromBlock, 16) && block <= parseInt(toBlock, 16) &&
+            topics.every((wanted: string | string[] | null, i: number) => matches(log.topics[i], wanted));
+        });
+      }
+      case 'eth_call': {
+        const call = decodeFunctionData({ abi: PERPS_ABI, data: params[0].data });
+        if (call.functionName === 'metadata') {
+          return encodeFunctionResult({ abi: PERPS_ABI, functionName: 'metadata', result: ['Ethereum', 'ETH'] });
+        }
+        return encodeFunctionResult({ abi: PERPS_ABI, functionName: 'indexPrice', result: fixed(indexPrice) });
+      }
+    }
+    throw new RpcFixtureError(-32601, `${method} not found`);
+  });
+}
+
+const range = { from: GENESIS_TIME };
+
+describe('fetchSynthetixTransactions', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('finds the wallet\'s accounts and replays their settled orders', async () => {
+    stubBase([
+      eventLog('AccountCreated', { accountId: ACCOUNT, owner: WALLET }, 10),
+      eventLog('CollateralModified', { accountId: ACCOUNT, collateralId: BigInt(0), amountDelta: fixed(1000), sender: WALLET }, 20),
+      orderSettled(30, 3000, 1, 1, 1.5),
+      // Funding accrued against the trader since the open
+      orderSettled(40, 3200, -1, 0, 1.6, -2),
+    ]);
+
+    const rows = await fetchSynthetixTransactions(WALLET, range);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      kind: 'close',
+      side: 'LONG',
+      asset: 'ETH',
+      quantity: 1,
+      entry_price: 3000,
+      exit_price: 3200,
+      pnl: 200,
+      chain: 'base',
+    });
+    expect(rows[0].fees).toBeCloseTo(3.1);
+    expect(rows[0].funding).toBeCloseTo(2);
+    expect(rows[1]).toMatchObject({ kind: 'transfer', side: 'DEPOSIT', asset: 'snxUSD', quantity: 1000 });
+  });
+
+  it('closes a fully liquidated position at the index price, on the side of the last order', async () => {
+    stubBase([
+      orderSettled(30, 3000, 2, 2, 0),
+      eventLog('PositionLiquidated', {
+        accountId: ACCOUNT,
+        marketId: ETH_MARKET,
+        amountLiquidated: fixed(2),
+        currentPositionSize: BigInt(0),
+      }, 50),
+    ], 2500);
+
+    const rows = await fetchSynthetixTransactions(ACCOUNT.toString(), range);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      kind: 'close',
+      side: 'LONG',
+      quantity: 2,
+      exit_price: 2500,
+      pnl: -1000,
+      liquidation: true,
+    });
+  });
+
+  it('warns instead of failing when a chain\'s RPC is down', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    stubRpc(() => {
+      throw new RpcFixtureError(-32000, 'upstream unavailable');
+    });
+
+    const { result: rows, warnings } = await collectWarnings(() => fetchSynthetixTransactions(WALLET, range));
+
+    expect(rows).toEqual([]);
+    expect(warnings).toEqual([expect.stringContaining('Synthetix history on base could not be read')]);
+  });
+});
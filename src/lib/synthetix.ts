@@ -0,0 +1,307 @@
+// Synthetix perps v3 history from PerpsMarketProxy events.
+//
+// Positions belong to numbered accounts rather than wallets: a wallet is
+// resolved to the accounts it created (AccountCreated), or a numeric account
+// id can be passed directly. Accounts transferred in from another wallet
+// aren't discovered. Amounts and prices are 18-decimal fixed point.
+
+import {
+  decodeEventLog,
+  decodeFunctionResult,
+  encodeFunctionData,
+  parseAbi,
+  toEventSelector,
+  type ContractEventName,
+} from 'viem';
+import { createDiskCache } from './cache';
+import { getRpcUrl } from './chains';
+import { addressToTopic, fetchBlockTimestamps, resolveBlockRange, type EvmLog } from './evm';
+import { scanLogs } from './evm-scanner';
+import { buildPositions, type PerpFill } from './positions';
+import { rpcBatch } from './rpc';
+import type { DateRange, PerpTransaction } from './types';
+import { warn } from './warnings';
+
+const EXCHANGE = 'Synthetix Perps';
+
+const PERPS_ABI = parseAbi([
+  'event AccountCreated(uint128 indexed accountId, address indexed owner)',
+  'event OrderSettled(uint128 indexed marketId, uint128 indexed accountId, uint256 fillPrice, int256 pnl, int256 accruedFunding, int128 sizeDelta, int128 newSize, uint256 totalFees, uint256 referralFees, uint256 collectedFees, uint256 settlementReward, bytes32 indexed trackingCode, address settler)',
+  'event PositionLiquidated(uint128 indexed accountId, uint128 indexed marketId, uint256 amountLiquidated, int128 currentPositionSize)',
+  // Renamed AccountLiquidationAttempt in later releases
+  'event AccountLiquidated(uint128 indexed accountId, uint256 reward, bool fullLiquidation)',
+  'event AccountLiquidationAttempt(uint128 indexed accountId, uint256 reward, bool fullLiquidation)',
+  'event CollateralModified(uint128 indexed accountId, uint128 indexed collateralId, int256 amountDelta, address indexed sender)',
+  'function metadata(uint128 marketId) view returns (string name, string symbol)',
+  'function indexPrice(uint128 marketId) view returns (uint256)',
+]);
+
+const ACCOUNT_CREATED_TOPIC = toEventSelector(PERPS_ABI[0]);
+const ORDER_SETTLED_TOPIC = toEventSelector(PERPS_ABI[1]);
+const POSITION_LIQUIDATED_TOPIC = toEventSelector(PERPS_ABI[2]);
+const ACCOUNT_LIQUIDATED_TOPICS = [toEventSelector(PERPS_ABI[3]), toEventSelector(PERPS_ABI[4])];
+const COLLATERAL_MODIFIED_TOPIC = toEventSelector(PERPS_ABI[5]);
+
+const DECIMALS = 18;
+
+interface SynthetixDeployment {
+  perpsMarketProxy: string;
+  // Collateral synth market id -> symbol; 0 is always snxUSD
+  collaterals: Record<string, string>;
+}
+
+// Perps v3 is live on Base (Andromeda). Optimism still runs perps v2, which
+// this adapter doesn't read; add its v3 proxy here once one is deployed.
+const SYNTHETIX_DEPLOYMENTS: Record<string, SynthetixDeployment> = {
+  base: {
+    perpsMarketProxy: '0x0a2af931effd34b81ebcc57e3d3c9b1e1de1c9ce',
+    collaterals: { '0': 'snxUSD', '1': 'sUSDC' },
+  },
+};
+
+export async function fetchSynthetixTransactions(wallet: string, options: DateRange = {}): Promise<PerpTransaction[]> {
+  const transactions: PerpTransaction[] = [];
+
+  for (const chain of Object.keys(SYNTHETIX_DEPLOYMENTS)) {
+    const rpcUrl = getRpcUrl(chain);
+    if (!rpcUrl) continue;
+    // One chain's RPC failing shouldn't cost the other chains' history
+    try {
+      transactions.push(...(await fetchSynthetixChain(wallet, chain, rpcUrl, options)));
+    } catch (err) {
+      warn(`Synthetix history on ${chain} could not be read:`, err);
+    }
+  }
+
+  return transactions.sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
+async function fetchSynthetixChain(
+  wallet: string,
+  chain: string,
+  rpcUrl: string,
+  options: DateRange
+): Promise<PerpTransaction[]> {
+  const deployment = SYNTHETIX_DEPLOYMENTS[chain];
+  const { fromBlock, toBlock } = await resolveBlockRange(rpcUrl, options);
+  if (fromBlock > toBlock) return [];
+
+  const address = deployment.perpsMarketProxy;
+  let accountIds: bigint[];
+  if (/^\d+$/.test(wallet)) {
+    accountIds = [BigInt(wallet)];
+  } else {
+    // Accounts may predate the requested window, so search from genesis
+    const created = await scanLogs(rpcUrl, { address, topics: [ACCOUNT_CREATED_TOPIC, null, addressToTopic(wallet)] }, 0, toBlock);
+    accountIds = created.map(log => decode(log, 'AccountCreated').accountId);
+  }
+  if (accountIds.length === 0) return [];
+
+  const accountTopics = accountIds.map(id => uintTopic(id));
+  const settled = await scanLogs(rpcUrl, { address, topics: [ORDER_SETTLED_TOPIC, null, accountTopics] }, fromBlock, toBlock);
+  const liquidated = await scanLogs(rpcUrl, { address, topics: [POSITION_LIQUIDATED_TOPIC, accountTopics] }, fromBlock, toBlock);
+  const accountLiquidations = await scanLogs(rpcUrl, { address, topics: [ACCOUNT_LIQUIDATED_TOPICS, accountTopics] }, fromBlock, toBlock);
+  const collateral = await scanLogs(rpcUrl, { address, topics: [COLLATERAL_MODIFIED_TOPIC, accountTopics] }, fromBlock, toBlock);
+
+  const timestamps = await fetchBlockTimestamps(rpcUrl, [...settled, ...liquidated, ...collateral].map(log => log.blockNumber));
+  const toTimestamp = (log: EvmLog) => {
+    const blockTime = timestamps.get(log.blockNumber);
+    return blockTime ? new Date(blockTime * 1000).toISOString() : new Date().toISOString();
+  };
+
+  const marketIds = [
+    ...settled.map(log => decode(log, 'OrderSettled').marketId),
+    ...liquidated.map(log => decode(log, 'PositionLiquidated').marketId),
+  ];
+  const symbols = await resolveMarketSymbols(chain, rpcUrl, address, marketIds);
+  const symbolOf = (marketId: bigint) => symbols.get(marketId.toString()) || `market-${marketId}`;
+
+  const fills: PerpFill[] = settled.map(log => {
+    const args = decode(log, 'OrderSettled');
+    const sizeDelta = fromFixed(args.sizeDelta);
+
+    return {
+      timestamp: toTimestamp(log),
+      asset: symbolOf(args.marketId),
+      size: sizeDelta,
+      price: fromFixed(args.fillPrice),
+      fee: fromFixed(args.totalFees),
+      // Positive accrued funding is paid to the trader
+      funding: -fromFixed(args.accruedFunding),
+      hash: log.transactionHash,
+      startPosition: fromFixed(args.newSize) - sizeDelta,
+      positionKey: `${args.accountId}:${args.marketId}`,
+    };
+  });
+
+  // Every account liquidation comes with a PositionLiquidated per market; one
+  // without the other means a proxy version whose events we don't decode
+  if (accountLiquidations.length > 0 && liquidated.length === 0) {
+    warn(`Synthetix account liquidations on ${chain} without PositionLiquidated events; positions may be off`);
+  }
+
+  fills.push(...(await liquidationFills(rpcUrl, address, liquidated, settled, toTimestamp, symbolOf)));
+
+  return [
+    ...buildPositions(fills, [], { exchange: EXCHANGE, chain }),
+    ...collateral.map(log => collateralRow(log, deployment, chain, toTimestamp(log))),
+  ];
+}
+
+// A liquidation closes `amountLiquidated` of the position at the index price
+// of that block, which the event doesn't carry; reading it needs an archive RPC
+async function liquidationFills(
+  rpcUrl: string,
+  address: string,
+  liquidated: EvmLog[],
+  settled: EvmLog[],
+  toTimestamp: (log: EvmLog) => string,
+  symbolOf: (marketId: bigint) => string
+): Promise<PerpFill[]> {
+  if (liquidated.length === 0) return [];
+
+  const prices = await rpcBatch<string>(rpcUrl, liquidated.map(log => ({
+    method: 'eth_call',
+    params: [{
+      to: address,
+      data: encodeFunctionData({
+        abi: PERPS_ABI,
+        functionName: 'indexPrice',
+        args: [decode(log, 'PositionLiquidated').marketId],
+      }),
+    }, log.blockNumber],
+  })));
+
+  const fills: PerpFill[] = [];
+  liquidated.forEach((log, i) => {
+    const args = decode(log, 'PositionLiquidated');
+    const positionKey = `${args.accountId}:${args.marketId}`;
+    const amount = fromFixed(args.amountLiquidated);
+    const remaining = fromFixed(args.currentPositionSize);
+
+    // amountLiquidated is unsigned: the side is that of what's left or, after
+    // a full liquidation, of the last settled order
+    let long = remaining > 0;
+    if (remaining === 0) {
+      const previous = settled
+        .filter(order => parseInt(order.blockNumber, 16) <= parseInt(log.blockNumber, 16))
+        .map(order => decode(order, 'OrderSettled'))
+        .filter(order => `${order.accountId}:${order.marketId}` === positionKey)
+        .pop();
+      if (!previous || previous.newSize === BigInt(0)) {
+        warn(`Unknown position side for the Synthetix liquidation in ${log.transactionHash}; skipped`);
+        return;
+      }
+      long = previous.newSize > BigInt(0);
+    }
+
+    if (!prices[i]) {
+      warn(`No index price for the Synthetix liquidation in ${log.transactionHash}; skipped`);
+      return;
+    }
+    const price = decodeFunctionResult({ abi: PERPS_ABI, functionName: 'indexPrice', data: prices[i] as `0x${string}` });
+
+    fills.push({
+      timestamp: toTimestamp(log),
+      asset: symbolOf(args.marketId),
+      size: long ? -amount : amount,
+      price: fromFixed(price),
+      fee: 0,
+      hash: log.transactionHash,
+      liquidation: true,
+      startPosition: long ? remaining + amount : remaining - amount,
+      positionKey,
+    });
+  });
+
+  return fills;
+}
+
+function collateralRow(
+  log: EvmLog,
+  deployment: SynthetixDeployment,
+  chain: string,
+  timestamp: string
+): PerpTransaction {
+  const args = decode(log, 'CollateralModified');
+  const amount = fromFixed(args.amountDelta);
+
+  return {
+    timestamp,
+    asset: deployment.collaterals[args.collateralId.toString()] || `synth-${args.collateralId}`,
+    side: amount >= 0 ? 'DEPOSIT' : 'WITHDRAWAL',
+    kind: 'transfer',
+    quantity: Math.abs(amount),
+    position_size: 0,
+    entry_price: 0,
+    fees: 0,
+    funding: 0,
+    exchange: EXCHANGE,
+    hash: log.transactionHash,
+    chain,
+    leverage: 0,
+  };
+}
+
+// Market id -> symbol via metadata(marketId), cached per chain
+async function resolveMarketSymbols(
+  chain: string,
+  rpcUrl: string,
+  address: string,
+  marketIds: bigint[]
+): Promise<Map<string, string>> {
+  const cache = createDiskCache<string>(`synthetix-markets-${chain}`);
+  const resolved = new Map<string, string>();
+  const missing: bigint[] = [];
+
+  for (const id of new Set(marketIds.map(id => id.toString()))) {
+    const cached = await cache.get(id);
+    if (cached) {
+      resolved.set(id, cached);
+    } else {
+      missing.push(BigInt(id));
+    }
+  }
+  if (missing.length === 0) return resolved;
+
+  const results = await rpcBatch<string>(rpcUrl, missing.map(id => ({
+    method: 'eth_call',
+    params: [{ to: address, data: encodeFunctionData({ abi: PERPS_ABI, functionName: 'metadata', args: [id] }) }, 'latest'],
+  })));
+
+  for (const [i, id] of missing.entries()) {
+    const result = results[i];
+    if (!result || result === '0x') continue;
+
+    const [, symbol] = decodeFunctionResult({ abi: PERPS_ABI, functionName: 'metadata', data: result as `0x${string}` });
+    if (!symbol) continue;
+    resolved.set(id.toString(), symbol);
+    await cache.set(id.toString(), symbol);
+  }
+
+  await cache.flush();
+  return resolved;
+}
+
+function decode<TEventName extends ContractEventName<typeof PERPS_ABI>>(log: EvmLog, eventName: TEventName) {
+  return decodeEventLog({
+    abi: PERPS_ABI,
+    eventName,
+    data: log.data as `0x${string}`,
+    topics: log.topics as [`0x${string}`, ...`0x${string}`[]],
+  }).args;
+}
+
+function uintTopic(value: bigint): string {
+  return '0x' + value.toString(16).padStart(64, '0');
+}
+
+function fromFixed(value: bigint): number {
+  const negative = value < BigInt(0);
+  const magnitude = negative ? -value : value;
+  const scale = BigInt(10) ** BigInt(DECIMALS);
+  const result = Number(magnitude / scale) + Number(magnitude % scale) / 10 ** DECIMALS;
+  return negative ? -result : result;
+}
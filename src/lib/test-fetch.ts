@@ -0,0 +1,51 @@
+// Global fetch stubs for the adapter tests: recorded REST responses and a
+// JSON-RPC 2.0 endpoint answering single and batch requests
+
+import { vi } from 'vitest';
+
+export class RpcFixtureError extends Error {
+  constructor(public readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+// Serves `respond(url, init)` as the JSON body of every request
+export function stubFetch(respond: (url: string, init?: RequestInit) => unknown) {
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) =>
+    new Response(JSON.stringify(await respond(url, init)))
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+// `answer` gives each call's result; an RpcFixtureError it throws becomes the
+// call's error response, anything else fails the request. Requests without a
+// body (REST endpoints next to the RPC) go to `rest`. Returns the methods
+// called, in order.
+export function stubRpc(
+  answer: (method: string, params: any[]) => unknown,
+  rest?: (url: string) => unknown
+): string[] {
+  const calls: string[] = [];
+
+  const respond = async ({ id, method, params }: any) => {
+    calls.push(method);
+    try {
+      return { jsonrpc: '2.0', id, result: await answer(method, params || []) };
+    } catch (err) {
+      if (!(err instanceof RpcFixtureError)) throw err;
+      return { jsonrpc: '2.0', id, error: { code: err.code, message: err.message } };
+    }
+  };
+
+  stubFetch(async (url, init) => {
+    if (!init?.body) {
+      if (!rest) throw new Error(`Unexpected request to ${url}`);
+      return rest(url);
+    }
+    const body = JSON.parse(init.body as string);
+    return Array.isArray(body) ? Promise.all(body.map(respond)) : respond(body);
+  });
+
+  return calls;
+}
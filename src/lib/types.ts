@@ -0,0 +1,92 @@
+// Shared transaction shapes returned by /api/transactions
+
+// Where a row came from: read from a chain or exchange API, imported from a
+// file, entered by hand, or generated sample data
+export type Provenance = 'live' | 'imported' | 'manual' | 'mock';
+
+export interface SpotTransaction {
+  timestamp: string;
+  asset: string;
+  side: string;
+  quantity: number;
+  // USD per unit of `asset` at `timestamp`; only meaningful when
+  // price_status is 'priced'
+  price: number;
+  total: number;
+  // 'implied' when derived from the other leg of the same trade rather than
+  // a market price. 'missing' when neither worked; price and total are then
+  // 0 and must not be read as a zero valuation
+  price_status?: 'priced' | 'implied' | 'missing';
+  // Price source that supplied `price`; 'implied:<asset>' for implied prices
+  price_source?: string;
+  fees: number;
+  hash: string;
+  chain: string;
+  // Token mint / contract address; omitted for the chain's native asset
+  token_address?: string;
+  // Full token name when known, e.g. "USD Coin" for USDC
+  asset_name?: string;
+  // Swaps only: the leg received in exchange for `asset`/`quantity`
+  received_asset?: string;
+  received_quantity?: number;
+  received_token_address?: string;
+  // Units of received_asset per unit of asset
+  implied_price?: number;
+  // DEX or protocol that executed the trade
+  venue?: string;
+  // Value moved by a contract call inside `hash` rather than by the
+  // transaction itself (EVM internal transaction)
+  internal?: boolean;
+  provenance?: Provenance;
+}
+
+export interface PerpTransaction {
+  timestamp: string;
+  asset: string;
+  // Position side, or the direction of a collateral transfer
+  side: 'LONG' | 'SHORT' | 'DEPOSIT' | 'WITHDRAWAL';
+  // A realized (partial) close of a position, a funding payment not tied to
+  // a known position, a collateral transfer, or a still-open position
+  kind?: 'close' | 'funding' | 'transfer' | 'position';
+  quantity: number;
+  // Volume-weighted average entry of the position
+  entry_price: number;
+  exit_price?: number;
+  // Realized PnL of this row's quantity, before fees and funding
+  pnl?: number;
+  fees: number;
+  // Funding paid; negative when funding was received
+  funding: number;
+  exchange: string;
+  hash: string;
+  chain: string;
+  position_size: number;
+  leverage: number;
+  liquidation?: boolean;
+  provenance?: Provenance;
+}
+
+export type Transaction = SpotTransaction | PerpTransaction;
+
+// Outcome of one data source in an /api/transactions response. 'partial'
+// means rows were returned but some items were skipped; see `warnings`.
+export interface SourceStatus {
+  source: string;
+  provenance: Provenance;
+  status: 'ok' | 'partial' | 'failed';
+  rows: number;
+  warnings: string[];
+  error?: string;
+}
+
+// Inclusive time window in unix seconds; either bound may be omitted
+export interface DateRange {
+  from?: number;
+  to?: number;
+}
+
+export interface TokenMetadata {
+  symbol: string;
+  name: string;
+  decimals: number;
+}
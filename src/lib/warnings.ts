@@ -0,0 +1,27 @@
+// Non-fatal problems hit while fetching (a token that couldn't be resolved, a
+// transaction that failed to decode, an RPC without trace support). They're
+// logged as before and also collected per request, so the API can tell the
+// user their export may be incomplete instead of only telling the server log.
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+const collector = new AsyncLocalStorage<string[]>();
+
+export function warn(message: string, error?: unknown) {
+  if (error === undefined) {
+    console.warn(message);
+  } else {
+    console.warn(message, error);
+  }
+
+  const detail = error instanceof Error ? error.message : error !== undefined ? String(error) : '';
+  collector.getStore()?.push(detail ? `${message.replace(/:$/, '')}: ${detail}` : message);
+}
+
+// Runs `fn` and returns what it resolved to along with every warning raised
+// inside it, including from nested async calls
+export async function collectWarnings<T>(fn: () => Promise<T>): Promise<{ result: T; warnings: string[] }> {
+  const warnings: string[] = [];
+  const result = await collector.run(warnings, fn);
+  return { result, warnings };
+}
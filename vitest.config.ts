@@ -0,0 +1,14 @@
+import os from 'os';
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') },
+  },
+  test: {
+    environment: 'node',
+    // Keep the disk caches of the code under test out of the working tree
+    env: { CACHE_DIR: path.join(os.tmpdir(), 'crypto-tax-exporter-test-cache') },
+  },
+});